@@ -0,0 +1,108 @@
+"""Helpers for scripts run by the Python Script Deck plugin.
+
+The plugin puts this package on the ``PYTHONPATH`` of every script it starts. Calls are sent as
+JSON-RPC requests on stdout and answered by the plugin on stdin, so they work in single runs and
+persistent services alike::
+
+    import streamdeck
+
+    count = streamdeck.get_settings().get("count", 0) + 1
+    streamdeck.set_settings({"count": count})
+    streamdeck.set_title(f"pressed\\n{count}x")
+"""
+
+import itertools
+import json
+import os
+import sys
+import threading
+
+__all__ = [
+    "StreamDeckError",
+    "available",
+    "call",
+    "get_settings",
+    "set_image",
+    "set_settings",
+    "set_state",
+    "set_title",
+    "show_alert",
+    "show_ok",
+]
+
+_ids = itertools.count(1)
+_lock = threading.Lock()
+
+
+class StreamDeckError(Exception):
+    """Raised when the plugin rejects a call or the script does not run inside the plugin."""
+
+
+def available():
+    """Whether the script was started by the plugin, which answers the calls."""
+    return os.environ.get("STREAMDECK_RPC") == "1"
+
+
+def call(method, params=None):
+    """Calls a method of the plugin and waits for its result."""
+    if not available():
+        raise StreamDeckError("the script was not started by the Stream Deck plugin")
+    with _lock:
+        request_id = next(_ids)
+        request = {"jsonrpc": "2.0", "id": request_id, "method": method}
+        if params is not None:
+            request["params"] = params
+        # the real stdout, in case the script redirected sys.stdout
+        sys.__stdout__.write(json.dumps(request) + "\n")
+        sys.__stdout__.flush()
+        while True:
+            line = sys.__stdin__.readline()
+            if not line:
+                raise StreamDeckError("the plugin closed the channel")
+            try:
+                response = json.loads(line)
+            except ValueError:
+                continue
+            if not isinstance(response, dict) or response.get("id") != request_id:
+                continue
+            if "error" in response:
+                raise StreamDeckError(response["error"].get("message", "unknown error"))
+            return response.get("result")
+
+
+def set_title(title):
+    """Shows the title on the key, ``\\n`` starts a new line."""
+    call("set_title", {"title": str(title)})
+
+
+def set_image(image):
+    """Shows an image on the key, given as path or data URI."""
+    call("set_image", {"image": image})
+
+
+def set_state(state):
+    """Switches the key to state 0 or 1."""
+    call("set_state", {"state": state})
+
+
+def show_ok():
+    """Shows the check mark on the key."""
+    call("show_ok")
+
+
+def show_alert():
+    """Shows the warning triangle on the key."""
+    call("show_alert")
+
+
+def get_settings():
+    """Returns the settings of the key, including what earlier runs stored with :func:`set_settings`."""
+    return call("get_settings") or {}
+
+
+def set_settings(settings, replace=False):
+    """Stores values in the settings of the key, merged into the existing ones unless ``replace`` is set.
+
+    Returns the settings as stored.
+    """
+    return call("set_settings", {"settings": settings, "replace": replace})
@@ -0,0 +1,77 @@
+/**
+ * Shows what a run of the key would execute without running it: interpreter, command line, working directory,
+ * the environment the plugin sets and whether the script is allowed and matches its pinned hash (`dryRun` message).
+ * A changed script can be trusted from here (`trustScript` message).
+ */
+(function () {
+    const { streamDeckClient } = SDPIComponents;
+
+    const pinLabels = {
+        off: "not pinned",
+        matches: "matches the pinned version",
+        changed: "changed since it was pinned",
+        missing: "can't be read"
+    };
+
+    function createField(label, value) {
+        const row = document.createElement("div");
+        row.className = "dry-run-field";
+        const title = document.createElement("span");
+        title.textContent = `${label}: `;
+        const text = document.createElement("code");
+        text.textContent = value;
+        row.append(title, text);
+        return row;
+    }
+
+    function render(dryRun) {
+        const container = document.getElementById("dry-run");
+        if (!dryRun) {
+            container.replaceChildren("no script configured");
+            return;
+        }
+
+        const trust = document.createElement("div");
+        trust.className = dryRun.trust.allowed && dryRun.trust.pin !== "changed" ? "dry-run-trust" : "dry-run-trust blocked";
+        const allowed = dryRun.trust.allowed ? "allowed" : `not allowed, outside the allowed script folders: ${dryRun.trust.blocked.join(", ")}`;
+        trust.textContent = `${allowed}, ${pinLabels[dryRun.trust.pin]}`;
+
+        const details = [
+            trust,
+            createField("script", dryRun.scriptPath),
+            createField("interpreter", dryRun.interpreter),
+            createField("command", dryRun.commandLine),
+            createField("working directory", dryRun.cwd)
+        ];
+        const env = Object.entries(dryRun.env);
+        if (env.length > 0) {
+            const pre = document.createElement("pre");
+            pre.textContent = env.map(([key, value]) => `${key}=${value}`).join("\n");
+            details.push(pre);
+        }
+        if (dryRun.trust.pin === "changed") {
+            const trustButton = document.createElement("button");
+            trustButton.textContent = "Trust current version";
+            trustButton.addEventListener("click", () => send("trustScript"));
+            details.push(trustButton);
+        }
+        container.replaceChildren(...details);
+    }
+
+    async function send(event) {
+        const { payload } = await streamDeckClient.getSettings();
+        streamDeckClient.send("sendToPlugin", { event, settings: payload.settings });
+        if (event === "trustScript") {
+            // show the result once the plugin stored the new pin
+            setTimeout(() => send("dryRun"), 500);
+        }
+    }
+
+    streamDeckClient.sendToPropertyInspector.subscribe(({ payload }) => {
+        if (payload.event === "dryRun") {
+            render(payload.dryRun);
+        }
+    });
+
+    window.dryRun = () => send("dryRun");
+})();
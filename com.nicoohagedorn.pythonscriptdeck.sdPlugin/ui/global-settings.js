@@ -0,0 +1,56 @@
+/**
+ * The settings shared by all keys, stored in the global settings of the plugin. Every action that runs scripts shows them
+ * in place of `<div id="global-settings">`, so they are kept in one place.
+ */
+(function () {
+    const html = `
+        <sdpi-item label="Defaults (all keys)">
+            <span>inherited by keys using the global default interpreter</span>
+        </sdpi-item>
+        <sdpi-item label="Default interpreter">
+            <sdpi-select setting="defaultInterpreter" global default="system">
+                <option value="system">system python</option>
+                <option value="auto">auto-detect project environment</option>
+                <option value="venv">virtual environment</option>
+                <option value="conda">conda environment</option>
+                <option value="pyenv">pyenv version</option>
+                <option value="path">interpreter path</option>
+                <option value="uv">uv run</option>
+            </sdpi-select>
+        </sdpi-item>
+        <sdpi-item label="Default virtual environment">
+            <sdpi-file setting="defaultVenvPath" global accept="text/cfg"></sdpi-file>
+        </sdpi-item>
+        <sdpi-item label="Default conda environment">
+            <sdpi-textfield setting="defaultCondaEnv" global placeholder="e.g. base"></sdpi-textfield>
+        </sdpi-item>
+        <sdpi-item label="Default pyenv version">
+            <sdpi-textfield setting="defaultPyenvVersion" global placeholder="e.g. 3.12.1"></sdpi-textfield>
+        </sdpi-item>
+        <sdpi-item label="Default interpreter path">
+            <sdpi-file setting="defaultPythonPath" global></sdpi-file>
+        </sdpi-item>
+        <sdpi-item label="Scripts folder">
+            <sdpi-textfield setting="scriptsRoot" global placeholder="relative script paths start here"></sdpi-textfield>
+        </sdpi-item>
+        <sdpi-item label="Shared environment">
+            <sdpi-textarea setting="sharedEnv" global rows="3" placeholder="KEY=value for all scripts, one per line"></sdpi-textarea>
+        </sdpi-item>
+        <sdpi-item label="Allowed script folders">
+            <sdpi-textarea setting="allowedRoots" global rows="3" placeholder="one per line, empty: scripts run from anywhere"></sdpi-textarea>
+        </sdpi-item>
+        <sdpi-item label="Bridge (all keys)">
+            <sdpi-checkbox setting="bridgeEnabled" global label="Listen on 127.0.0.1"></sdpi-checkbox>
+        </sdpi-item>
+        <sdpi-item label="Bridge port">
+            <sdpi-textfield setting="bridgePort" global pattern="^[0-9]*$" inputmode="numeric" placeholder="default: 8765"></sdpi-textfield>
+        </sdpi-item>
+        <sdpi-item label="Bridge token">
+            <sdpi-textfield setting="bridgeToken" global placeholder="generated when enabled"></sdpi-textfield>
+        </sdpi-item>
+    `;
+
+    document.addEventListener("DOMContentLoaded", () => {
+        document.getElementById("global-settings").innerHTML = html;
+    });
+})();
@@ -0,0 +1,41 @@
+/**
+ * Lists the python interpreters the plugin found on this machine (`discoverInterpreters` message)
+ * and applies the selected one to the settings through the plugin (`useInterpreter` message).
+ */
+(function () {
+    const { streamDeckClient } = SDPIComponents;
+
+    function render(interpreters) {
+        const container = document.getElementById("interpreters");
+        if (interpreters.length === 0) {
+            container.replaceChildren("no interpreters found");
+            return;
+        }
+        container.replaceChildren(...interpreters.map(interpreter => {
+            const row = document.createElement("div");
+            row.className = "interpreter";
+            const label = document.createElement("span");
+            label.textContent = `${interpreter.label} – ${interpreter.version}`;
+            label.title = interpreter.executable;
+            const use = document.createElement("button");
+            use.textContent = "Use";
+            use.addEventListener("click", () => streamDeckClient.send("sendToPlugin", { event: "useInterpreter", settings: interpreter.settings }));
+            row.append(label, use);
+            return row;
+        }));
+    }
+
+    async function discover() {
+        document.getElementById("interpreters").replaceChildren("searching…");
+        const { payload } = await streamDeckClient.getSettings();
+        streamDeckClient.send("sendToPlugin", { event: "discoverInterpreters", path: payload.settings.path });
+    }
+
+    streamDeckClient.sendToPropertyInspector.subscribe(({ payload }) => {
+        if (payload.event === "interpreters") {
+            render(payload.interpreters);
+        }
+    });
+
+    window.discoverInterpreters = discover;
+})();
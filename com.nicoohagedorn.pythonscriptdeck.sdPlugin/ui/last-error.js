@@ -0,0 +1,50 @@
+/**
+ * Shows the last failed run of the key: exception, failing line, and the full stderr output with the traceback.
+ * The plugin answers `getLastError` and pushes new errors while the property inspector is open.
+ */
+(function () {
+    const { streamDeckClient } = SDPIComponents;
+
+    function render(lastError) {
+        const container = document.getElementById("last-error");
+        if (!lastError) {
+            container.replaceChildren("no errors so far");
+            return;
+        }
+
+        const summary = document.createElement("div");
+        summary.className = "last-error-summary";
+        summary.textContent = `${new Date(lastError.timestamp).toLocaleString()} – exit code ${lastError.exitCode ?? "none"}`;
+
+        const message = document.createElement("div");
+        message.className = "last-error-message";
+        message.textContent = lastError.error.message;
+
+        const details = [summary, message];
+        const traceback = lastError.error.traceback;
+        if (traceback?.code) {
+            const code = document.createElement("code");
+            code.textContent = `line ${traceback.line}: ${traceback.code}`;
+            details.push(code);
+        }
+        if (lastError.stderr) {
+            const stderr = document.createElement("pre");
+            stderr.textContent = lastError.stderr;
+            details.push(stderr);
+        }
+
+        const clear = document.createElement("button");
+        clear.textContent = "Clear";
+        clear.addEventListener("click", () => streamDeckClient.send("sendToPlugin", { event: "clearLastError" }));
+        details.push(clear);
+        container.replaceChildren(...details);
+    }
+
+    streamDeckClient.sendToPropertyInspector.subscribe(({ payload }) => {
+        if (payload.event === "lastError") {
+            render(payload.lastError);
+        }
+    });
+
+    document.addEventListener("DOMContentLoaded", () => streamDeckClient.send("sendToPlugin", { event: "getLastError" }));
+})();
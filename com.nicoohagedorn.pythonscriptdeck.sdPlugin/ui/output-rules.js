@@ -0,0 +1,159 @@
+/**
+ * Editor for the ordered list of output rules (`settings.rules`).
+ * Rules are evaluated top to bottom by the plugin, the first matching rule wins.
+ */
+(function () {
+    const { streamDeckClient } = SDPIComponents;
+
+    const matchTypes = [
+        { value: "exact", label: "equals" },
+        { value: "regex", label: "matches regex" },
+        { value: "greater", label: "number >" },
+        { value: "less", label: "number <" },
+        { value: "between", label: "number between" },
+        { value: "default", label: "default" }
+    ];
+
+    let rules = [];
+
+    function createInput(rule, key, placeholder, type = "text") {
+        const input = document.createElement("input");
+        input.type = type;
+        input.placeholder = placeholder;
+        input.value = rule[key] ?? (type === "color" ? "#ffffff" : "");
+        input.addEventListener("change", () => {
+            rule[key] = input.value;
+            save();
+        });
+        return input;
+    }
+
+    function createColorPicker(rule, key, title, defaultColor) {
+        const useColor = document.createElement("input");
+        useColor.type = "checkbox";
+        useColor.title = title;
+        useColor.checked = Boolean(rule[key]);
+        const color = createInput(rule, key, "", "color");
+        color.title = title;
+        color.value = rule[key] ?? defaultColor;
+        color.disabled = !useColor.checked;
+        useColor.addEventListener("change", () => {
+            color.disabled = !useColor.checked;
+            if (useColor.checked) {
+                rule[key] = color.value;
+            } else {
+                delete rule[key];
+            }
+            save();
+        });
+        return [useColor, color];
+    }
+
+    function createImagePicker(rule) {
+        const wrapper = document.createElement("div");
+        wrapper.className = "rule-image";
+        const pathLabel = document.createElement("span");
+        pathLabel.textContent = rule.image ? rule.image.split(/[\\/]/).pop() : "no image";
+        const picker = document.createElement("input");
+        picker.type = "file";
+        picker.accept = "image/png, image/jpeg, image/gif, image/svg+xml";
+        picker.addEventListener("change", () => {
+            rule.image = decodeURIComponent(picker.value.replace(/^C:\\fakepath\\/, ""));
+            pathLabel.textContent = rule.image.split(/[\\/]/).pop();
+            save();
+        });
+        const clear = document.createElement("button");
+        clear.textContent = "✕";
+        clear.title = "remove image";
+        clear.addEventListener("click", () => {
+            delete rule.image;
+            pathLabel.textContent = "no image";
+            save();
+        });
+        wrapper.append(picker, pathLabel, clear);
+        return wrapper;
+    }
+
+    function createRow(rule, index) {
+        const row = document.createElement("div");
+        row.className = "rule";
+
+        const match = document.createElement("select");
+        matchTypes.forEach(type => match.add(new Option(type.label, type.value, false, type.value === rule.match)));
+        match.addEventListener("change", () => {
+            rule.match = match.value;
+            save();
+            render();
+        });
+        row.append(match);
+
+        if (rule.match === "between") {
+            row.append(createInput(rule, "min", "min"), createInput(rule, "max", "max"));
+        } else if (rule.match !== "default") {
+            row.append(createInput(rule, "value", rule.match === "regex" ? "pattern" : "value"));
+        }
+
+        row.append(createImagePicker(rule));
+        row.append(createInput(rule, "title", "title, {value} = output"));
+
+        row.append(...createColorPicker(rule, "titleColor", "use a custom title color", "#ffffff"));
+        row.append(...createColorPicker(rule, "background", "background color of value images", "#c62828"));
+
+        const buttons = document.createElement("div");
+        buttons.className = "rule-buttons";
+        buttons.append(
+            createButton("▲", "move up", index > 0, () => move(index, index - 1)),
+            createButton("▼", "move down", index < rules.length - 1, () => move(index, index + 1)),
+            createButton("Remove", "remove rule", true, () => {
+                rules.splice(index, 1);
+                save();
+                render();
+            })
+        );
+        row.append(buttons);
+        return row;
+    }
+
+    function createButton(label, title, enabled, onClick) {
+        const button = document.createElement("button");
+        button.textContent = label;
+        button.title = title;
+        button.disabled = !enabled;
+        button.addEventListener("click", onClick);
+        return button;
+    }
+
+    function move(from, to) {
+        const [rule] = rules.splice(from, 1);
+        rules.splice(to, 0, rule);
+        save();
+        render();
+    }
+
+    function render() {
+        const container = document.getElementById("output-rules");
+        container.replaceChildren(...rules.map(createRow));
+        const add = createButton("Add rule", "add a new rule", true, () => {
+            rules.push({ match: "exact", value: "" });
+            save();
+            render();
+        });
+        container.append(add);
+    }
+
+    async function save() {
+        const { payload } = await streamDeckClient.getSettings();
+        await streamDeckClient.setSettings({ ...payload.settings, rules });
+    }
+
+    streamDeckClient.didReceiveSettings.subscribe(({ payload }) => {
+        rules = payload.settings.rules ?? [];
+        render();
+    });
+
+    document.addEventListener("DOMContentLoaded", async () => {
+        const { payload } = await streamDeckClient.getSettings();
+        rules = payload.settings.rules ?? [];
+        render();
+    });
+})();
@@ -0,0 +1,82 @@
+/**
+ * Lists the recent runs of the key, newest first, with their output. The plugin answers `getRunHistory`,
+ * pushes every new run while the property inspector is open, and runs a script again on `rerun`.
+ */
+(function () {
+    const { streamDeckClient } = SDPIComponents;
+
+    let entries = [];
+
+    function matchesFilter(entry) {
+        const status = document.getElementById("run-history-status").value;
+        if ((status === "failed" && !entry.failed) || (status === "succeeded" && entry.failed)) {
+            return false;
+        }
+        const text = document.getElementById("run-history-filter").value.trim().toLowerCase();
+        return !text || [entry.trigger, entry.scriptPath, entry.stdout, entry.stderr].some(value => value?.toLowerCase().includes(text));
+    }
+
+    function createOutput(label, output) {
+        const title = document.createElement("div");
+        title.className = "run-output-label";
+        title.textContent = label;
+        const pre = document.createElement("pre");
+        pre.textContent = output;
+        return [title, pre];
+    }
+
+    function createEntry(entry) {
+        const details = document.createElement("details");
+        details.className = entry.failed ? "run failed" : "run";
+
+        const summary = document.createElement("summary");
+        const result = entry.signal ? `killed (${entry.signal})` : `exit code ${entry.exitCode ?? "none"}`;
+        summary.textContent = `${new Date(entry.timestamp).toLocaleString()} – ${entry.trigger} – ${(entry.durationMs / 1000).toFixed(1)}s – ${result}`;
+        details.append(summary);
+
+        const script = document.createElement("div");
+        script.className = "run-script";
+        script.textContent = entry.changedPath ? `${entry.scriptPath} (changed: ${entry.changedPath})` : entry.scriptPath;
+        details.append(script);
+        if (entry.stdout) {
+            details.append(...createOutput("stdout", entry.stdout));
+        }
+        if (entry.stderr) {
+            details.append(...createOutput("stderr", entry.stderr));
+        }
+
+        const rerun = document.createElement("button");
+        rerun.textContent = "Re-run";
+        rerun.title = `run the script again with trigger ${entry.trigger}`;
+        rerun.addEventListener("click", () => streamDeckClient.send("sendToPlugin", { event: "rerun", timestamp: entry.timestamp }));
+        details.append(rerun);
+        return details;
+    }
+
+    function render() {
+        const container = document.getElementById("run-history");
+        const visible = entries.filter(matchesFilter);
+        if (visible.length === 0) {
+            container.replaceChildren(entries.length === 0 ? "no runs so far" : "no matching runs");
+            return;
+        }
+        container.replaceChildren(...visible.map(createEntry));
+    }
+
+    streamDeckClient.sendToPropertyInspector.subscribe(({ payload }) => {
+        if (payload.event === "runHistory") {
+            entries = payload.entries;
+            render();
+        } else if (payload.event === "runHistoryEntry") {
+            entries = [payload.entry, ...entries.filter(entry => entry.timestamp !== payload.entry.timestamp)];
+            render();
+        }
+    });
+
+    document.addEventListener("DOMContentLoaded", () => {
+        document.getElementById("run-history-filter").addEventListener("input", render);
+        document.getElementById("run-history-status").addEventListener("change", render);
+        document.getElementById("run-history-clear").addEventListener("click", () => streamDeckClient.send("sendToPlugin", { event: "clearRunHistory" }));
+        streamDeckClient.send("sendToPlugin", { event: "getRunHistory" });
+    });
+})();
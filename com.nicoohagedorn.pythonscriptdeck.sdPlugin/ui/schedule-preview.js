@@ -0,0 +1,39 @@
+/**
+ * Previews the next run times of the service schedule. The preview is requested when the property inspector opens,
+ * the plugin sends a new one whenever the settings change.
+ */
+(function () {
+    const { streamDeckClient } = SDPIComponents;
+
+    function requestPreview(settings) {
+        streamDeckClient.send("sendToPlugin", { event: "previewSchedule", settings });
+    }
+
+    function render(times, error) {
+        const container = document.getElementById("schedule-preview");
+        if (error) {
+            container.replaceChildren(error);
+            return;
+        }
+        if (times.length === 0) {
+            container.replaceChildren("no upcoming runs");
+            return;
+        }
+        container.replaceChildren(...times.map(time => {
+            const line = document.createElement("div");
+            line.textContent = new Date(time).toLocaleString(undefined, { weekday: "short", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+            return line;
+        }));
+    }
+
+    streamDeckClient.sendToPropertyInspector.subscribe(({ payload }) => {
+        if (payload.event === "schedulePreview") {
+            render(payload.times, payload.error);
+        }
+    });
+
+    document.addEventListener("DOMContentLoaded", async () => {
+        const { payload } = await streamDeckClient.getSettings();
+        requestPreview(payload.settings);
+    });
+})();
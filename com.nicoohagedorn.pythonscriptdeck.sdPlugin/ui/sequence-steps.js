@@ -0,0 +1,145 @@
+/**
+ * Editor for the ordered steps of a sequence (`settings.steps`).
+ * Every step has its own script, arguments and interpreter, and can receive the output of the step before it.
+ */
+(function () {
+    const { streamDeckClient } = SDPIComponents;
+
+    const interpreters = [
+        { value: "default", label: "global default" },
+        { value: "system", label: "system python" },
+        { value: "auto", label: "auto-detect project environment" },
+        { value: "venv", label: "virtual environment", setting: "venvPath", placeholder: "path to the virtual environment" },
+        { value: "conda", label: "conda environment", setting: "condaEnv", placeholder: "conda environment, e.g. base" },
+        { value: "pyenv", label: "pyenv version", setting: "pyenvVersion", placeholder: "pyenv version, e.g. 3.12.1" },
+        { value: "path", label: "interpreter path", setting: "pythonPath", placeholder: "path to the interpreter" },
+        { value: "uv", label: "uv run" }
+    ];
+
+    const inputs = [
+        { value: "none", label: "ignore previous output" },
+        { value: "stdin", label: "previous output as stdin" },
+        { value: "argument", label: "previous output as argument" }
+    ];
+
+    let steps = [];
+
+    function createInput(step, key, placeholder) {
+        const input = document.createElement("input");
+        input.type = "text";
+        input.placeholder = placeholder;
+        input.value = step[key] ?? "";
+        input.addEventListener("change", () => {
+            step[key] = input.value;
+            save();
+        });
+        return input;
+    }
+
+    function createSelect(step, key, options, defaultValue) {
+        const select = document.createElement("select");
+        options.forEach(option => select.add(new Option(option.label, option.value, false, option.value === (step[key] ?? defaultValue))));
+        select.addEventListener("change", () => {
+            step[key] = select.value;
+            save();
+            render();
+        });
+        return select;
+    }
+
+    function createScriptPicker(step) {
+        const wrapper = document.createElement("div");
+        wrapper.className = "step-script";
+        const pathLabel = document.createElement("span");
+        pathLabel.textContent = step.path ? step.path.split(/[\\/]/).pop() : "no script";
+        pathLabel.title = step.path ?? "";
+        const picker = document.createElement("input");
+        picker.type = "file";
+        picker.accept = ".py";
+        picker.addEventListener("change", () => {
+            step.path = decodeURIComponent(picker.value.replace(/^C:\\fakepath\\/, ""));
+            pathLabel.textContent = step.path.split(/[\\/]/).pop();
+            pathLabel.title = step.path;
+            save();
+        });
+        wrapper.append(picker, pathLabel);
+        return wrapper;
+    }
+
+    function createRow(step, index) {
+        const row = document.createElement("div");
+        row.className = "step";
+
+        const number = document.createElement("span");
+        number.className = "step-number";
+        number.textContent = `${index + 1}.`;
+        row.append(number, createScriptPicker(step));
+        row.append(createInput(step, "name", "name on the key"), createInput(step, "args", "arguments"));
+
+        row.append(createSelect(step, "interpreter", interpreters, "default"));
+        const interpreter = interpreters.find(option => option.value === (step.interpreter ?? "default"));
+        if (interpreter?.setting) {
+            row.append(createInput(step, interpreter.setting, interpreter.placeholder));
+        }
+        if (index > 0) {
+            row.append(createSelect(step, "input", inputs, "none"));
+        }
+
+        const buttons = document.createElement("div");
+        buttons.className = "step-buttons";
+        buttons.append(
+            createButton("▲", "move up", index > 0, () => move(index, index - 1)),
+            createButton("▼", "move down", index < steps.length - 1, () => move(index, index + 1)),
+            createButton("Remove", "remove step", true, () => {
+                steps.splice(index, 1);
+                save();
+                render();
+            })
+        );
+        row.append(buttons);
+        return row;
+    }
+
+    function createButton(label, title, enabled, onClick) {
+        const button = document.createElement("button");
+        button.textContent = label;
+        button.title = title;
+        button.disabled = !enabled;
+        button.addEventListener("click", onClick);
+        return button;
+    }
+
+    function move(from, to) {
+        const [step] = steps.splice(from, 1);
+        steps.splice(to, 0, step);
+        save();
+        render();
+    }
+
+    function render() {
+        const container = document.getElementById("sequence-steps");
+        container.replaceChildren(...steps.map(createRow));
+        const add = createButton("Add step", "add a new step", true, () => {
+            steps.push({ interpreter: "default", input: "none" });
+            save();
+            render();
+        });
+        container.append(add);
+    }
+
+    async function save() {
+        const { payload } = await streamDeckClient.getSettings();
+        await streamDeckClient.setSettings({ ...payload.settings, steps });
+    }
+
+    streamDeckClient.didReceiveSettings.subscribe(({ payload }) => {
+        steps = payload.settings.steps ?? [];
+        render();
+    });
+
+    document.addEventListener("DOMContentLoaded", async () => {
+        const { payload } = await streamDeckClient.getSettings();
+        steps = payload.settings.steps ?? [];
+        render();
+    });
+})();
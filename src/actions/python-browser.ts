@@ -0,0 +1,247 @@
+import streamDeck, { action, DialDownEvent, DialRotateEvent, DidReceiveSettingsEvent, KeyDownEvent, KeyUpEvent, SendToPluginEvent, SingletonAction, TouchTapEvent, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
+import * as fs from "fs";
+import { forgetVisibleKey, resolveScriptPath, trackVisibleKey } from "../global-settings";
+import { handleInterpreterMessage, handleLastErrorMessage, handleRunHistoryMessage, handleTrustMessage, KeyScriptSettings, runScriptOnKey, scriptImages } from "../key-runner";
+import { readImageAsDataUri } from "../render/svg";
+import { longPressMs } from "../runner/process-tracker";
+import { FolderScript, listFolderScripts } from "../runner/script-folder";
+import { forgetScriptSettings } from "../script-api";
+import { scriptTriggers } from "../triggers";
+
+/**
+ * Changes in the folder are picked up once it was quiet for this long, so copying many files reloads the list once.
+ */
+const refreshDelayMs = 500;
+
+type BrowserEvent = WillAppearEvent<PythonBrowserSettings> | DidReceiveSettingsEvent<PythonBrowserSettings>;
+
+type RunEvent = KeyUpEvent<PythonBrowserSettings> | DialDownEvent<PythonBrowserSettings> | TouchTapEvent<PythonBrowserSettings>;
+
+/**
+ * The folder a key browses, with the scripts found in it.
+ */
+type BrowsedFolder = {
+	ev: BrowserEvent;
+	folder?: string;
+	scripts: FolderScript[];
+	selected: number;
+	watcher?: fs.FSWatcher;
+	refreshTimer?: NodeJS.Timeout;
+};
+
+@action({ UUID: "com.nicoohagedorn.pythonscriptdeck.browser" })
+export class PythonBrowser extends SingletonAction<PythonBrowserSettings> {
+	/**
+	 * The folder of every visible key, keyed by action id.
+	 */
+	private folders = new Map<string, BrowsedFolder>();
+
+	/**
+	 * Keys that are held down, keyed by action id. Holding a key for {@link longPressMs} selects the next script.
+	 */
+	private pendingPresses = new Map<string, { timer: NodeJS.Timeout; paged: boolean }>();
+
+	onWillAppear(ev: WillAppearEvent<PythonBrowserSettings>): void | Promise<void> {
+		forgetScriptSettings(ev.action.id);
+		trackVisibleKey(ev.action);
+		this.openFolder(ev);
+		this.registerRerun(ev);
+	}
+
+	onDidReceiveSettings(ev: DidReceiveSettingsEvent<PythonBrowserSettings>): Promise<void> | void {
+		forgetScriptSettings(ev.action.id);
+		this.openFolder(ev);
+		this.registerRerun(ev);
+	}
+
+	onWillDisappear(ev: WillDisappearEvent<PythonBrowserSettings>): Promise<void> | void {
+		const browsed = this.folders.get(ev.action.id);
+		if (browsed) {
+			this.closeFolder(browsed);
+			this.folders.delete(ev.action.id);
+		}
+		forgetVisibleKey(ev.action.id);
+		scriptTriggers.unregister(ev.action.id);
+	}
+
+	/**
+	 * Answers the interpreter search and selection, the last error, the run history and the dry run requests of the property inspector.
+	 * The dry run shows the selected script.
+	 */
+	async onSendToPlugin(ev: SendToPluginEvent<object, PythonBrowserSettings>): Promise<void> {
+		if (!(await handleInterpreterMessage(ev)) && !(await handleLastErrorMessage(ev)) && !(await handleRunHistoryMessage(ev))) {
+			await handleTrustMessage(ev, this.getSelected(ev.action.id)?.path);
+		}
+	}
+
+	/**
+	 * The press is decided on key up: a short press runs the selected script, holding the key selects the next one.
+	 */
+	onKeyDown(ev: KeyDownEvent<PythonBrowserSettings>): Promise<void> | void {
+		const press = {
+			paged: false,
+			timer: setTimeout(() => {
+				press.paged = true;
+				this.select(ev.action.id, 1);
+			}, longPressMs)
+		};
+		this.pendingPresses.set(ev.action.id, press);
+	}
+
+	onKeyUp(ev: KeyUpEvent<PythonBrowserSettings>): Promise<void> | void {
+		const press = this.pendingPresses.get(ev.action.id);
+		this.pendingPresses.delete(ev.action.id);
+		clearTimeout(press?.timer);
+		if (press && !press.paged) {
+			this.runSelected(ev, "keyDown");
+		}
+	}
+
+	/**
+	 * Turning the dial pages through the scripts, pressing it or touching the strip runs the selected one.
+	 */
+	onDialRotate(ev: DialRotateEvent<PythonBrowserSettings>): Promise<void> | void {
+		this.select(ev.action.id, ev.payload.ticks);
+	}
+
+	onDialDown(ev: DialDownEvent<PythonBrowserSettings>): Promise<void> | void {
+		this.runSelected(ev, "dialDown");
+	}
+
+	onTouchTap(ev: TouchTapEvent<PythonBrowserSettings>): Promise<void> | void {
+		this.runSelected(ev, "touchTap");
+	}
+
+	/**
+	 * Runs the selected script like a Run Script key, with the interpreter and environment of the browser key.
+	 */
+	runSelected(ev: RunEvent, trigger: string) {
+		this.runScript(ev, this.getSelected(ev.action.id), trigger);
+	}
+
+	/**
+	 * The scripts of the folder change without the key being configured again, so they are not pinned:
+	 * the browser only runs scripts inside the allowed script folders.
+	 */
+	private runScript(ev: RunEvent | BrowserEvent, script: FolderScript | undefined, trigger: string) {
+		if (!script) {
+			ev.action.showAlert();
+			return;
+		}
+		const settings = ev.payload.settings;
+		runScriptOnKey(ev, { ...settings, path: script.path, pinScripts: false }, {
+			images: scriptImages,
+			showRunning: settings.showRunning !== false,
+			trigger
+		});
+	}
+
+	/**
+	 * Re-runs from the run history run the script of the chosen run, as long as it is still in the folder.
+	 */
+	private registerRerun(ev: BrowserEvent) {
+		scriptTriggers.register(ev.action.id, ev.deviceId, {}, (trigger, _changedPath, scriptPath) => {
+			const browsed = this.folders.get(ev.action.id);
+			const script = scriptPath ? browsed?.scripts.find(script => script.path === scriptPath) : this.getSelected(ev.action.id);
+			this.runScript(browsed?.ev ?? ev, script, trigger);
+		});
+	}
+
+	/**
+	 * Moves the selection by `steps` scripts, wrapping around at both ends.
+	 */
+	select(actionId: string, steps: number) {
+		const browsed = this.folders.get(actionId);
+		if (!browsed || browsed.scripts.length === 0) {
+			return;
+		}
+		const count = browsed.scripts.length;
+		browsed.selected = (((browsed.selected + steps) % count) + count) % count;
+		this.showSelected(browsed);
+	}
+
+	private getSelected(actionId: string): FolderScript | undefined {
+		const browsed = this.folders.get(actionId);
+		return browsed?.scripts[browsed.selected];
+	}
+
+	/**
+	 * Lists the scripts of the folder in the settings and watches it for new, renamed and removed scripts.
+	 * The watcher is only recreated when the folder changed.
+	 */
+	private openFolder(ev: BrowserEvent) {
+		const folder = resolveScriptPath(ev.payload.settings.folder?.trim() || undefined);
+		const existing = this.folders.get(ev.action.id);
+		if (existing && existing.folder === folder) {
+			existing.ev = ev;
+			this.refresh(existing);
+			return;
+		}
+		if (existing) {
+			this.closeFolder(existing);
+		}
+
+		const browsed: BrowsedFolder = { ev, folder, scripts: [], selected: 0 };
+		this.folders.set(ev.action.id, browsed);
+		if (folder) {
+			try {
+				browsed.watcher = fs.watch(folder, () => {
+					clearTimeout(browsed.refreshTimer);
+					browsed.refreshTimer = setTimeout(() => this.refresh(browsed), refreshDelayMs);
+				});
+				browsed.watcher.on("error", (error: Error) => {
+					streamDeck.logger.warn(`watching ${folder} failed: ${error.message}`);
+					browsed.watcher?.close();
+					browsed.watcher = undefined;
+				});
+			} catch (error) {
+				streamDeck.logger.warn(`cannot watch ${folder}: ${error}`);
+			}
+		}
+		this.refresh(browsed);
+	}
+
+	private closeFolder(browsed: BrowsedFolder) {
+		clearTimeout(browsed.refreshTimer);
+		browsed.watcher?.close();
+		browsed.watcher = undefined;
+	}
+
+	/**
+	 * Lists the scripts again. The selected script stays selected as long as it exists.
+	 */
+	private refresh(browsed: BrowsedFolder) {
+		const selectedPath = browsed.scripts[browsed.selected]?.path;
+		browsed.scripts = browsed.folder ? listFolderScripts(browsed.folder) : [];
+		const index = browsed.scripts.findIndex(script => script.path === selectedPath);
+		browsed.selected = index >= 0 ? index : Math.min(browsed.selected, Math.max(0, browsed.scripts.length - 1));
+		this.showSelected(browsed);
+	}
+
+	/**
+	 * Shows the title and icon of the selected script with its position in the list, on dials on the touch strip.
+	 */
+	private showSelected(browsed: BrowsedFolder) {
+		const { action, payload } = browsed.ev;
+		const script = browsed.scripts[browsed.selected];
+		const position = script ? `${browsed.selected + 1}/${browsed.scripts.length}` : "";
+		const title = script?.title ?? (browsed.folder ? "no scripts" : "no folder");
+		if (payload.controller === "Encoder") {
+			action.setFeedback({ title: position, value: title, indicator: { value: script ? ((browsed.selected + 1) / browsed.scripts.length) * 100 : 0, opacity: 1 } });
+			return;
+		}
+		action.setImage((script?.icon && readImageAsDataUri(script.icon)) || scriptImages.idle);
+		action.setTitle(position ? `${title}\n${position}` : title);
+	}
+}
+
+/**
+ * Settings for {@link PythonBrowser}. The interpreter, arguments and environment apply to every script of the folder.
+ * The scripts of the folder are not pinned, only the allowed script folders apply to them.
+ */
+export type PythonBrowserSettings = KeyScriptSettings & {
+	/**
+	 * Folder with the scripts, relative paths start at the scripts root.
+	 */
+	folder?: string;
+};
@@ -1,213 +1,267 @@
-import streamDeck, { action, DidReceiveSettingsEvent, KeyDownEvent, SingletonAction, WillAppearEvent } from "@elgato/streamdeck";
-import { ChildProcess, spawn } from "child_process";
-import * as os from "os";
-import * as path from "node:path";
-import * as fs from "fs";
-
-
+import { action, DialDownEvent, DialRotateEvent, DidReceiveSettingsEvent, KeyDownEvent, KeyUpEvent, SendToPluginEvent, SingletonAction, TouchTapEvent, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
+import { handleInterpreterMessage, handleLastErrorMessage, handleRunHistoryMessage, handleTrustMessage, KeyScriptSettings, runScriptOnDialRotate, runScriptOnKey, scriptImages, showScriptIdentity } from "../key-runner";
+import { doublePressMs, Gesture, GestureSettings, getGestureSettings, getLongPressThreshold, isGestureEnabled } from "../gestures";
+import { forgetVisibleKey, trackVisibleKey } from "../global-settings";
+import { LegacyOutputSettings, migrateOutputRules } from "../output-rules";
+import { keyBridge } from "../key-bridge";
+import { processTracker } from "../runner/process-tracker";
+import { forgetScriptSettings } from "../script-api";
+import { scriptTrust } from "../script-trust";
+import { scriptTriggers } from "../triggers";
 
 /**
- * Error mapping for python errors
+ * Gestures that start runs of their own, tracked apart from each other.
  */
-const pythonErrorMap: { [key: string]: string } = {
-	"SyntaxError": "Python\nSyntax\nError",
-	"NameError": "Python\nName\nError",
-	"TypeError": "Python\nType\nError",
-	"ValueError": "Python\nValue\nError",
-	"ZeroDivisionError": "Python\nZeroDiv\nError",
-	"IndexError": "Python\nIndex\nError",
-	"KeyError": "Python\nKey\nError",
-	"AttributeError": "Python\nAttribute\nError",
-	"ImportError": "Python\nImport\nError",
-	"No such file or directory": "Python\nFile\nError",
-	"ModuleNotFoundError": "Python\nModule\nError",
-	"RuntimeError": "Python\nRuntime\nError",
-	"MemoryError": "Python\nMemory\nError",
-	"OverflowError": "Python\nOverflow\nError",
-	"SystemError": "Python\nSystem\nError",
-	"Microsoft Store": "Python\nnot found\nError",
-	
+const runGestures: Gesture[] = ["keyDown", "keyUp", "longPress", "doublePress"];
+
+type PendingPress = {
+	timer?: NodeJS.Timeout;
+	/**
+	 * Set once the long press timer fired, the key up that follows is ignored.
+	 */
+	longPressed: boolean;
+	/**
+	 * Whether the key down left the short press to the key up.
+	 */
+	decideOnKeyUp?: boolean;
 };
 
 @action({ UUID: "com.nicoohagedorn.pythonscriptdeck.script" })
 export class PythonScript extends SingletonAction<PythonScriptSettings> {
+	/**
+	 * Keys that are currently held down, keyed by action id. They are decided on key up or by the long press timer.
+	 */
+	private pendingPresses = new Map<string, PendingPress>();
+
+	/**
+	 * First presses waiting for a second one to become a double press, keyed by action id.
+	 */
+	private pendingClicks = new Map<string, NodeJS.Timeout>();
+
 	/**
 	 * The {@link SingletonAction.onWillAppear} event is useful for setting the visual representation of an action when it becomes visible. This could be due to the Stream Deck first
 	 * starting up, or the user navigating between pages / folders etc.. There is also an inverse of this event in the form of {@link streamDeck.client.onWillDisappear}. In this example,
 	 * we're setting the title to the "count" that is incremented in {@link PythonScript.onKeyDown}.
 	 */
 	onWillAppear(ev: WillAppearEvent<PythonScriptSettings>): void | Promise<void> {
-		const settings = ev.payload.settings;
-		if (settings.path) {
-			if (settings.path.includes(".py")) {
-				ev.action.setImage("imgs/actions/gemini_icons/pyFileLoaded.png")
-				var venvname = "";
-				if (settings.useVenv && settings.venvPath) {
-					const normalizedVenvPath = this.normalizeVenvPath(settings.venvPath);
-					streamDeck.logger.info(`Normalized venv path: ${normalizedVenvPath}`);
-					venvname = path.basename(normalizedVenvPath) + "\n";
-					streamDeck.logger.info(venvname);
-					venvname = `venv:\n ${venvname}`
-
-				}
-				ev.action.setTitle(`${venvname}${this.getFileNameFromPath(settings.path)}`);
-			}
-		}
-
+		forgetScriptSettings(ev.action.id);
+		trackVisibleKey(ev.action);
+		const settings = this.migrateSettings(ev);
+		this.pinScripts(ev);
+		showScriptIdentity(ev.action, settings, scriptImages);
+		this.registerTriggers(ev);
+		scriptTriggers.appeared(ev.action.id);
 	}
 
 	onDidReceiveSettings(ev: DidReceiveSettingsEvent<PythonScriptSettings>): Promise<void> | void {
-		const settings = ev.payload.settings;
-		if (settings.path) {
-			if (settings.path.includes(".py")) {
-
-				var venvname = "";
-				if (settings.useVenv && settings.venvPath) {
-					const normalizedVenvPath = this.normalizeVenvPath(settings.venvPath);
-					streamDeck.logger.info(`Normalized venv path: ${normalizedVenvPath}`);
-					venvname = path.basename(normalizedVenvPath) + "\n";
-					streamDeck.logger.info(venvname);
-					venvname = `venv:\n ${venvname}`
-					ev.action.setImage("imgs/actions/gemini_icons/pyVirtEnvActive.png")
-				}else {
-					ev.action.setImage("imgs/actions/gemini_icons/pyFileLoaded.png")
-				}
-				ev.action.setTitle(`${venvname}${this.getFileNameFromPath(settings.path)}`);
-			}
+		forgetScriptSettings(ev.action.id);
+		const settings = this.migrateSettings(ev);
+		this.pinScripts(ev);
+		showScriptIdentity(ev.action, settings, scriptImages);
+		this.registerTriggers(ev);
+	}
+
+	onWillDisappear(ev: WillDisappearEvent<PythonScriptSettings>): Promise<void> | void {
+		forgetVisibleKey(ev.action.id);
+		scriptTriggers.unregister(ev.action.id);
+		keyBridge.unregister(ev.action.id);
+	}
+
+	/**
+	 * Answers the interpreter search and selection, the last error, the run history and the dry run requests of the property inspector.
+	 */
+	async onSendToPlugin(ev: SendToPluginEvent<object, PythonScriptSettings>): Promise<void> {
+		if (!(await handleInterpreterMessage(ev)) && !(await handleLastErrorMessage(ev)) && !(await handleRunHistoryMessage(ev))) {
+			await handleTrustMessage(ev);
 		}
 	}
 
 	/**
 	 * Listens for the {@link SingletonAction.onKeyDown} event which is emitted by Stream Deck when an action is pressed. Stream Deck provides various events for tracking interaction
 	 * with devices including key down/up, dial rotations, and device connectivity, etc. When triggered, {@link ev} object contains information about the event including any payloads
-	 * and action information where applicable. In this example, our action will display a counter that increments by one each press. We track the current count on the action's persisted
-	 * settings using `setSettings` and `getSettings`.
+	 * and action information where applicable. Without long or double press bindings the script runs right away, otherwise the press is decided on key up.
+	 * Holding the key while one of its scripts is running aborts the run instead of running the long press binding,
+	 * holding it while a pinned script changed trusts the new version.
 	 */
 	async onKeyDown(ev: KeyDownEvent<PythonScriptSettings>): Promise<void> {
-		// Update the count from the settings.
+		if (scriptTrust.handleKeyDown(ev)) {
+			return;
+		}
 		const settings = ev.payload.settings;
-		const scriptPath = settings.path;
-		const useVenv = Boolean(settings.useVenv);
-		let pythonProcess: ChildProcess | undefined;
-		if (scriptPath) {
-			streamDeck.logger.info(`path to script is: ${scriptPath}`);
-			pythonProcess = this.createChildProcess(useVenv, settings.venvPath, scriptPath);
-
-			if (pythonProcess && pythonProcess.stdout) {
-				streamDeck.logger.info(`start reading output`);
-				pythonProcess.stdout.on("data", (data: { toString: () => string }) => {
-					const output = data.toString().trim();
-					streamDeck.logger.info(`stdout: ${output}`);
-					if (settings.displayValues) {
-						ev.action.setTitle(output);
-					}
-
-					if (settings.image1 && output === (settings.value1 ?? "")) {
-						ev.action.setImage(settings.image1);
-					} else if (settings.image2 && output === (settings.value2 ?? "")) {
-						ev.action.setImage(settings.image2);
-					} else {
-						ev.action.setImage("imgs/actions/gemini_icons/pyFileLoaded.png");
-					}
-				});
-
-				pythonProcess.stderr?.on("data", (data: { toString: () => string }) => {
-					const errorString = data.toString().trim().replace(/(?:\r\n|\r|\n)/g, " ");
-					streamDeck.logger.error(`stderr: ${errorString}`);
-					ev.action.setImage("imgs/actions/pyFilecheckFailed.png");
-					let errorTitle = "python\nother\nissue";
-					for (const key in pythonErrorMap) {
-						if (errorString.includes(key)) {
-							errorTitle = pythonErrorMap[key];
-							break;
-						}
-					}
-					if (errorTitle === "python\nother\nissue") {
-						streamDeck.logger.error(errorString);
-					}
-					ev.action.setTitle(errorTitle);
-					ev.action.showAlert();
-				});
-
-				pythonProcess.on("close", (code: number | null) => {
-					streamDeck.logger.info(`child process exited with code ${code}`);
-				});
+		const busy = this.isBusy(ev.action.id);
+		if (!busy && !isGestureEnabled(settings, "longPress") && !isGestureEnabled(settings, "doublePress")) {
+			this.pendingPresses.set(ev.action.id, { longPressed: false });
+			this.runGesture(ev, "keyDown");
+			return;
+		}
+
+		const press: PendingPress = { longPressed: false, decideOnKeyUp: true };
+		press.timer = setTimeout(() => {
+			press.longPressed = true;
+			if (busy) {
+				this.abort(ev);
+			} else {
+				this.runGesture(ev, "longPress");
 			}
+		}, getLongPressThreshold(settings));
+		this.pendingPresses.set(ev.action.id, press);
+	}
+
+	/**
+	 * Decides short and double presses, and runs the key up binding after every press that was not a long press.
+	 */
+	onKeyUp(ev: KeyUpEvent<PythonScriptSettings>): Promise<void> | void {
+		if (scriptTrust.handleKeyUp(ev)) {
+			return;
+		}
+		const press = this.pendingPresses.get(ev.action.id);
+		this.pendingPresses.delete(ev.action.id);
+		clearTimeout(press?.timer);
+		if (press?.longPressed) {
+			return;
 		}
 
+		if (press?.decideOnKeyUp) {
+			this.decideShortPress(ev);
+		}
+		if (isGestureEnabled(ev.payload.settings, "keyUp")) {
+			this.runGesture(ev, "keyUp");
+		}
+	}
 
+	/**
+	 * Turning the dial runs the script with the rotation in `STREAMDECK_TICKS`.
+	 */
+	onDialRotate(ev: DialRotateEvent<PythonScriptSettings>): Promise<void> | void {
+		const settings = ev.payload.settings;
+		runScriptOnDialRotate(ev, settings, {
+			images: scriptImages,
+			showRunning: settings.showRunning !== false
+		});
 	}
 
-	createChildProcess(useVenv: boolean, venvPath: string | undefined, scriptPath: string) {
-		let pythonProcess: ChildProcess | undefined;
-		const isWindows = os.platform() === "win32";
-		const normalizedScriptPath = isWindows ? path.win32.normalize(scriptPath) : scriptPath;
+	onDialDown(ev: DialDownEvent<PythonScriptSettings>): Promise<void> | void {
+		this.runScript(ev, "dialDown");
+	}
 
-		if (useVenv && venvPath) {
-			const normalizedVenvPath = this.normalizeVenvPath(venvPath);
-			streamDeck.logger.info(`Using virtual environment at: ${normalizedVenvPath}`);
+	onTouchTap(ev: TouchTapEvent<PythonScriptSettings>): Promise<void> | void {
+		this.runScript(ev, "touchTap");
+	}
 
-			if (isWindows) {
-				const pythonExecutable = path.join(normalizedVenvPath, "Scripts", "python.exe");
-				pythonProcess = spawn(pythonExecutable, [normalizedScriptPath], { windowsHide: true });
-			} else {
-				const pythonExecutable = path.join(normalizedVenvPath, "bin", "python3");
-				pythonProcess = spawn(pythonExecutable, [normalizedScriptPath]);
-			}
-		} else {
-			if (isWindows) {
-				pythonProcess = spawn("python", [normalizedScriptPath], { windowsHide: true });
-			} else {
-				pythonProcess = spawn("python3", [normalizedScriptPath]);
-			}
-		}
+	/**
+	 * Runs the script of the key, the concurrency policy of the settings decides what happens to a run that is still alive.
+	 */
+	runScript(ev: KeyDownEvent<PythonScriptSettings> | KeyUpEvent<PythonScriptSettings> | DialDownEvent<PythonScriptSettings> | TouchTapEvent<PythonScriptSettings>, trigger?: string) {
+		const settings = ev.payload.settings;
+		runScriptOnKey(ev, settings, {
+			images: scriptImages,
+			showRunning: settings.showRunning !== false,
+			trigger
+		});
+	}
 
-		pythonProcess?.on("error", (error: Error) => {
-			streamDeck.logger.error(`Failed to start python process: ${error.message}`);
+	/**
+	 * Runs the binding of the gesture. Bindings other than the plain press run independently of the script of the key,
+	 * so e.g. a key up binding is not skipped while the key down script is still running.
+	 */
+	runGesture(ev: KeyDownEvent<PythonScriptSettings> | KeyUpEvent<PythonScriptSettings>, gesture: Gesture) {
+		const settings = getGestureSettings(ev.payload.settings, gesture);
+		runScriptOnKey(ev, settings, {
+			images: scriptImages,
+			showRunning: settings.showRunning !== false,
+			trigger: gesture,
+			runId: getRunId(ev.action.id, gesture)
 		});
+	}
+
+	/**
+	 * A short press runs the script of the key, with double press enabled only once no second press followed in time.
+	 */
+	private decideShortPress(ev: KeyUpEvent<PythonScriptSettings>) {
+		if (!isGestureEnabled(ev.payload.settings, "doublePress")) {
+			this.runGesture(ev, "keyDown");
+			return;
+		}
+		const firstPress = this.pendingClicks.get(ev.action.id);
+		if (firstPress) {
+			clearTimeout(firstPress);
+			this.pendingClicks.delete(ev.action.id);
+			this.runGesture(ev, "doublePress");
+			return;
+		}
+		this.pendingClicks.set(ev.action.id, setTimeout(() => {
+			this.pendingClicks.delete(ev.action.id);
+			this.runGesture(ev, "keyDown");
+		}, doublePressMs));
+	}
 
-		return pythonProcess;
+	private isBusy(actionId: string): boolean {
+		return runGestures.some(gesture => processTracker.isRunning(getRunId(actionId, gesture)));
 	}
 
 	/**
-	 * Normalizes the virtual environment path.
-	 * If the path points to a pyvenv.cfg file, returns its parent directory.
-	 * Otherwise, returns the path as-is.
+	 * Kills every running script of the key.
 	 */
-	normalizeVenvPath(venvPath: string): string {
-		try {
-			// Check if the path points to a file (likely pyvenv.cfg)
-			if (fs.existsSync(venvPath) && fs.statSync(venvPath).isFile()) {
-				// Return the parent directory
-				return path.dirname(venvPath);
-			}
-		} catch (error) {
-			streamDeck.logger.warn(`Could not check venv path: ${error}`);
+	private abort(ev: KeyDownEvent<PythonScriptSettings>) {
+		const aborted = runGestures.filter(gesture => processTracker.abort(getRunId(ev.action.id, gesture)));
+		if (aborted.length > 0) {
+			ev.action.setTitle("aborted");
+			ev.action.showOk();
 		}
-		// If it's already a directory or doesn't exist yet, return as-is
-		return venvPath;
 	}
 
-	getFileNameFromPath(path: string): string {
-		//geht the FileName from the path
-		const fileName = path.substring(path.lastIndexOf("/") + 1);
-		return fileName;
+	/**
+	 * Lets file changes, the plugin start, device connects and the key appearing run the script, as configured in the settings.
+	 * Named keys can also be updated and run through the bridge.
+	 */
+	registerTriggers(ev: WillAppearEvent<PythonScriptSettings> | DidReceiveSettingsEvent<PythonScriptSettings>) {
+		const settings = ev.payload.settings;
+		scriptTriggers.register(ev.action.id, ev.deviceId, settings, (trigger, changedPath) => runScriptOnKey(ev, isGesture(trigger) ? getGestureSettings(settings, trigger) : settings, {
+			images: scriptImages,
+			showRunning: settings.showRunning !== false,
+			trigger,
+			changedPath
+		}));
+		keyBridge.register(ev.action.id, settings.id, ev.action, () => runScriptOnKey(ev, settings, {
+			images: scriptImages,
+			showRunning: settings.showRunning !== false,
+			trigger: "bridge"
+		}));
+	}
+
+	/**
+	 * Pins the scripts of the key and of its gesture bindings, if enabled.
+	 */
+	private pinScripts(ev: WillAppearEvent<PythonScriptSettings> | DidReceiveSettingsEvent<PythonScriptSettings>) {
+		const settings = ev.payload.settings;
+		scriptTrust.pin(ev, [settings.path, settings.keyUpPath, settings.longPressPath, settings.doublePressPath]);
 	}
 
-	
+	/**
+	 * Migrates legacy value/image pairs to output rules and persists the result.
+	 */
+	migrateSettings(ev: WillAppearEvent<PythonScriptSettings> | DidReceiveSettingsEvent<PythonScriptSettings>): PythonScriptSettings {
+		const migrated = migrateOutputRules<PythonScriptSettings & LegacyOutputSettings>(ev.payload.settings);
+		if (migrated) {
+			ev.payload.settings = migrated;
+			ev.action.setSettings(migrated);
+		}
+		return ev.payload.settings;
+	}
 }
 
 /**
  * Settings for {@link PythonScript}.
  */
-export type PythonScriptSettings = {
-	path?: string;
-	value1?: string;
-	image1?: string;
-	value2?: string;
-	image2?: string;
-	displayValues?: boolean;
-	useVenv?: boolean;
-	venvPath?: string;
+export type PythonScriptSettings = KeyScriptSettings & GestureSettings;
 
-};
+/**
+ * Re-runs from the run history pass the trigger of the original run, gestures run their own binding again.
+ */
+function isGesture(trigger: string): trigger is Gesture {
+	return (runGestures as string[]).includes(trigger);
+}
+
+function getRunId(actionId: string, gesture: Gesture): string {
+	return gesture === "keyDown" ? actionId : `${actionId}:${gesture}`;
+}
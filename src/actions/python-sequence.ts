@@ -0,0 +1,207 @@
+import streamDeck, { Action, action, DialDownEvent, DidReceiveSettingsEvent, KeyDownEvent, KeyUpEvent, SendToPluginEvent, SingletonAction, TouchTapEvent, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
+import { DialSettings } from "../dial-output";
+import { forgetVisibleKey, trackVisibleKey, withGlobalDefaults } from "../global-settings";
+import { getScriptContext, handleLastErrorMessage, reportBlockedRun, reportScriptFailure, runningImage, scriptImages, showScriptOutput } from "../key-runner";
+import { OutputRule } from "../output-rules";
+import { ValueImageSettings } from "../render/value-image";
+import { getFileNameFromPath } from "../runner/interpreter";
+import { longPressMs, ProcessControlSettings } from "../runner/process-tracker";
+import { RunResult } from "../runner/python-run";
+import { FailurePolicy, SequenceResult, SequenceRun, SequenceStep } from "../runner/sequence";
+import { createScriptApi, forgetScriptSettings } from "../script-api";
+import { scriptTrust, TrustSettings } from "../script-trust";
+
+type SequenceEvent = KeyDownEvent<PythonSequenceSettings> | DialDownEvent<PythonSequenceSettings> | TouchTapEvent<PythonSequenceSettings>;
+
+@action({ UUID: "com.nicoohagedorn.pythonscriptdeck.sequence" })
+export class PythonSequence extends SingletonAction<PythonSequenceSettings> {
+	/**
+	 * Sequences that are currently running, keyed by action id.
+	 */
+	private sequences = new Map<string, SequenceRun>();
+
+	/**
+	 * Presses that arrived while the sequence of the key was running, keyed by action id. Holding the key aborts the sequence.
+	 */
+	private pendingPresses = new Map<string, NodeJS.Timeout>();
+
+	onWillAppear(ev: WillAppearEvent<PythonSequenceSettings>): void | Promise<void> {
+		forgetScriptSettings(ev.action.id);
+		trackVisibleKey(ev.action);
+		scriptTrust.pin(ev, ev.payload.settings.steps?.map(step => step.path) ?? []);
+		this.showSteps(ev.action, ev.payload.settings);
+	}
+
+	onDidReceiveSettings(ev: DidReceiveSettingsEvent<PythonSequenceSettings>): Promise<void> | void {
+		forgetScriptSettings(ev.action.id);
+		scriptTrust.pin(ev, ev.payload.settings.steps?.map(step => step.path) ?? []);
+		this.showSteps(ev.action, ev.payload.settings);
+	}
+
+	onWillDisappear(ev: WillDisappearEvent<PythonSequenceSettings>): Promise<void> | void {
+		forgetVisibleKey(ev.action.id);
+		clearTimeout(this.pendingPresses.get(ev.action.id));
+		this.pendingPresses.delete(ev.action.id);
+		this.sequences.get(ev.action.id)?.abort();
+	}
+
+	/**
+	 * Answers the last error requests of the property inspector.
+	 */
+	async onSendToPlugin(ev: SendToPluginEvent<object, PythonSequenceSettings>): Promise<void> {
+		await handleLastErrorMessage(ev);
+	}
+
+	/**
+	 * Starts the sequence. While it is running, holding the key for {@link longPressMs} aborts it, short presses are ignored.
+	 * While a pinned script of a step changed, holding the key trusts the new version.
+	 */
+	onKeyDown(ev: KeyDownEvent<PythonSequenceSettings>): Promise<void> | void {
+		if (scriptTrust.handleKeyDown(ev)) {
+			return;
+		}
+		const running = this.sequences.get(ev.action.id);
+		if (!running) {
+			this.runSequence(ev, "keyDown");
+			return;
+		}
+		this.pendingPresses.set(ev.action.id, setTimeout(() => {
+			this.pendingPresses.delete(ev.action.id);
+			running.abort();
+		}, longPressMs));
+	}
+
+	onKeyUp(ev: KeyUpEvent<PythonSequenceSettings>): Promise<void> | void {
+		if (scriptTrust.handleKeyUp(ev)) {
+			return;
+		}
+		clearTimeout(this.pendingPresses.get(ev.action.id));
+		this.pendingPresses.delete(ev.action.id);
+	}
+
+	onDialDown(ev: DialDownEvent<PythonSequenceSettings>): Promise<void> | void {
+		this.runSequence(ev, "dialDown");
+	}
+
+	onTouchTap(ev: TouchTapEvent<PythonSequenceSettings>): Promise<void> | void {
+		this.runSequence(ev, "touchTap");
+	}
+
+	/**
+	 * Runs the steps of the key one after the other and shows which step is running. A failed step is reported
+	 * like a failed script, the sequence then stops or continues with the next step as configured.
+	 * The sequence doesn't start when the script of a step may not run.
+	 */
+	runSequence(ev: SequenceEvent, trigger: string) {
+		const settings = ev.payload.settings;
+		const steps = settings.steps ?? [];
+		if (this.sequences.has(ev.action.id)) {
+			streamDeck.logger.info(`sequence of action ${ev.action.id} is still running - skipping this run`);
+			return;
+		}
+		if (!steps.some(step => step.path)) {
+			streamDeck.logger.warn(`sequence of action ${ev.action.id} has no steps`);
+			ev.action.showAlert();
+			return;
+		}
+
+		const resolvedSteps = steps.map(step => withGlobalDefaults(step));
+		for (const step of resolvedSteps) {
+			const trustProblem = step.path && scriptTrust.check(ev.action.id, settings, step.path, step);
+			if (step.path && trustProblem) {
+				reportBlockedRun(ev.action, step.path, trustProblem, scriptImages, ev.payload.controller);
+				return;
+			}
+		}
+
+		const context = { ...getScriptContext(ev, settings.id), trigger };
+		const sequence = new SequenceRun({
+			steps: resolvedSteps,
+			onFailure: settings.onFailure,
+			stepTimeout: settings.timeout,
+			context,
+			rpcHandlers: createScriptApi(ev.action, settings)
+		});
+		sequence.on("step", (index: number, step: SequenceStep) => {
+			streamDeck.logger.info(`sequence of action ${ev.action.id} runs step ${index + 1}: ${step.path}`);
+			this.showProgress(ev, settings, index, step);
+		});
+		sequence.on("stepExit", (index: number, step: SequenceStep, result: RunResult) => {
+			if (result.error) {
+				reportScriptFailure(ev.action, step.path ?? "", result, scriptImages, context.controller);
+			}
+		});
+		sequence.on("done", (result: SequenceResult) => {
+			this.sequences.delete(ev.action.id);
+			this.showResult(ev, settings, result);
+		});
+		this.sequences.set(ev.action.id, sequence);
+		sequence.start();
+	}
+
+	/**
+	 * Shows the number and name of the running step, on dials also as progress bar.
+	 */
+	private showProgress(ev: SequenceEvent, settings: PythonSequenceSettings, index: number, step: SequenceStep) {
+		const total = settings.steps?.length ?? 0;
+		const name = getStepName(step);
+		if (ev.payload.controller === "Encoder") {
+			ev.action.setFeedback({ title: name, value: `${index + 1}/${total}`, indicator: { value: (index / total) * 100, opacity: 1 } });
+			return;
+		}
+		if (settings.showRunning !== false) {
+			ev.action.setImage(runningImage);
+		}
+		ev.action.setTitle(`${index + 1}/${total}\n${name}`);
+	}
+
+	/**
+	 * Shows the output of the last step. A sequence that stopped at a failed step keeps showing its error,
+	 * one that continued past failures shows how many steps failed.
+	 */
+	private showResult(ev: SequenceEvent, settings: PythonSequenceSettings, result: SequenceResult) {
+		const controller = ev.payload.controller;
+		if (result.aborted) {
+			ev.action.setImage(scriptImages.idle);
+			ev.action.setTitle("aborted");
+			ev.action.showOk();
+		} else if (result.failed > 0) {
+			if (settings.onFailure === "continue") {
+				ev.action.setImage(scriptImages.failed);
+				ev.action.setTitle(`${result.failed} of ${result.results.length}\nfailed`);
+			}
+		} else if (result.output.trim()) {
+			showScriptOutput(ev.action, settings, result.output.trim(), scriptImages, controller);
+		} else {
+			this.showSteps(ev.action, settings);
+			ev.action.showOk();
+		}
+	}
+
+	/**
+	 * Shows the number of steps as title.
+	 */
+	private showSteps(action: Action<PythonSequenceSettings>, settings: PythonSequenceSettings) {
+		const steps = settings.steps?.filter(step => step.path).length ?? 0;
+		action.setImage(scriptImages.idle);
+		action.setTitle(steps === 1 ? "1 step" : `${steps} steps`);
+	}
+}
+
+function getStepName(step: SequenceStep): string {
+	return step.name?.trim() || (step.path ? getFileNameFromPath(step.path) : "");
+}
+
+/**
+ * Settings for {@link PythonSequence}. The timeout applies to every single step.
+ */
+export type PythonSequenceSettings = ProcessControlSettings & DialSettings & ValueImageSettings & TrustSettings & {
+	steps?: SequenceStep[];
+	onFailure?: FailurePolicy;
+	rules?: OutputRule[];
+	displayValues?: boolean;
+	/**
+	 * Name the user gave the key, passed to the scripts as `STREAMDECK_KEY_NAME`.
+	 */
+	id?: string;
+};
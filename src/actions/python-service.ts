@@ -1,75 +1,162 @@
-import streamDeck, { action, DidReceiveSettingsEvent, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
+import streamDeck, { Action, action, DialDownEvent, DialRotateEvent, DidReceiveSettingsEvent, KeyDownEvent, KeyUpEvent, SendToPluginEvent, SingletonAction, TouchTapEvent, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
 import { pyBGService, ServiceState } from "../python-bg-service";
-import * as path from "node:path";
-import * as fs from "fs";
+import { keyBridge } from "../key-bridge";
+import { handleInterpreterMessage, handleLastErrorMessage, handleRunHistoryMessage, handleTrustMessage, KeyScriptSettings, serviceImages, showScriptIdentity } from "../key-runner";
+import { forgetVisibleKey, trackVisibleKey } from "../global-settings";
+import { LegacyOutputSettings, migrateOutputRules } from "../output-rules";
+import { longPressMs } from "../runner/process-tracker";
+import { getNextRunTimes, parseCron, ScheduleSettings } from "../runner/schedule";
+import { forgetScriptSettings } from "../script-api";
+import { scriptTrust } from "../script-trust";
+import { scriptTriggers } from "../triggers";
 
+/**
+ * Number of upcoming runs the property inspector previews.
+ */
+const schedulePreviewCount = 5;
 
 @action({ UUID: "com.nicoohagedorn.pythonscriptdeck.service" })
 export class PythonService extends SingletonAction<PythonServiceSettings> {
+	/**
+	 * Presses that arrived while the script of the key was running, keyed by action id. They are decided on key up or by the long press timer.
+	 */
+	private pendingPresses = new Map<string, { ev: KeyDownEvent<PythonServiceSettings>; timer: NodeJS.Timeout }>();
+
 	/**
 	 * The {@link SingletonAction.onWillAppear} event is useful for setting the visual representation of an action when it becomes visible. This could be due to the Stream Deck first
 	 * starting up, or the user navigating between pages / folders etc.. There is also an inverse of this event in the form of {@link streamDeck.client.onWillDisappear}. In this example,
 	 * we're setting the title to the "count" that is incremented in {@link PythonScript.onKeyDown}.
 	 */
 	onWillAppear(ev: WillAppearEvent<PythonServiceSettings>): void | Promise<void> {
-		const settings = ev.payload.settings;
-		if (settings.path) {
-			if (settings.path.includes(".py")) {
-				ev.action.setImage("imgs/actions/pyServiceIcon.png")
-				var venvname = "";
-				if (settings.useVenv && settings.venvPath) {
-					const normalizedVenvPath = this.normalizeVenvPath(settings.venvPath);
-					streamDeck.logger.info(`Normalized venv path: ${normalizedVenvPath}`);
-					venvname = path.basename(normalizedVenvPath) + "\n";
-					streamDeck.logger.info(venvname);
-					venvname = `venv:\n ${venvname}`
-
-				}
-				ev.action.setTitle(`${venvname}${this.getFileNameFromPath(settings.path)}`);
-			}
-		}
+		forgetScriptSettings(ev.action.id);
+		trackVisibleKey(ev.action);
+		const settings = this.migrateSettings(ev);
+		scriptTrust.pin(ev, [settings.path]);
+		showScriptIdentity(ev.action, settings, serviceImages);
 		if (this.checkSettingsComplete(settings)) {
 			pyBGService.registerAction(ev);
 		}
-
-
+		this.registerTriggers(ev);
+		scriptTriggers.appeared(ev.action.id);
 	}
 
 	onDidReceiveSettings(ev: DidReceiveSettingsEvent<PythonServiceSettings>): Promise<void> | void {
-		const settings = ev.payload.settings;
-		if (settings.path) {
-			if (settings.path.includes(".py")) {
-				ev.action.setImage("imgs/actions/pyServiceIcon.png")
-				var venvname = "";
-				if (settings.useVenv && settings.venvPath) {
-					const normalizedVenvPath = this.normalizeVenvPath(settings.venvPath);
-					streamDeck.logger.info(`Normalized venv path: ${normalizedVenvPath}`);
-					venvname = path.basename(normalizedVenvPath) + "\n";
-					streamDeck.logger.info(venvname);
-					venvname = `venv:\n ${venvname}`
-
-				}
-				ev.action.setTitle(`${venvname}${this.getFileNameFromPath(settings.path)}`);
-			}
-		}
+		forgetScriptSettings(ev.action.id);
+		const settings = this.migrateSettings(ev);
+		scriptTrust.pin(ev, [settings.path]);
+		showScriptIdentity(ev.action, settings, serviceImages);
 		pyBGService.registerAction(ev);
+		this.registerTriggers(ev);
+		this.previewSchedule(ev.action, settings);
 	}
 
 	onWillDisappear(ev: WillDisappearEvent<PythonServiceSettings>): Promise<void> | void {
 		streamDeck.logger.info("onWillDisappear - unregister Action");
 		pyBGService.unregisterAction(ev);
+		forgetVisibleKey(ev.action.id);
+		scriptTriggers.unregister(ev.action.id);
+		keyBridge.unregister(ev.action.id);
+	}
+
+	/**
+	 * Lets file changes, the plugin start, device connects and the key appearing run the script once,
+	 * whether the service is started or not. Named keys can also be updated and run through the bridge. Master keys have no script to run.
+	 * Re-running a persistent worker from the run history restarts the worker instead of starting a second process next to it.
+	 */
+	registerTriggers(ev: WillAppearEvent<PythonServiceSettings> | DidReceiveSettingsEvent<PythonServiceSettings>) {
+		if (ev.payload.settings.master) {
+			scriptTriggers.unregister(ev.action.id);
+			keyBridge.unregister(ev.action.id);
+			return;
+		}
+		scriptTriggers.register(ev.action.id, ev.deviceId, ev.payload.settings, (trigger, changedPath) => {
+			if (trigger !== "persistent") {
+				pyBGService.executeAction(ev, trigger, changedPath);
+			} else if (!pyBGService.restartWorker(ev.action.id)) {
+				ev.action.showAlert();
+			}
+		});
+		keyBridge.register(ev.action.id, ev.payload.settings.id, ev.action, () => pyBGService.executeAction(ev, "bridge"));
 	}
 
+	/**
+	 * Answers the schedule preview, the interpreter search and selection, the last error, the run history and the dry run requests
+	 * of the property inspector.
+	 */
+	async onSendToPlugin(ev: SendToPluginEvent<object, PythonServiceSettings>): Promise<void> {
+		const message = ev.payload as { event?: string; settings?: PythonServiceSettings };
+		if (message.event === "previewSchedule" && message.settings) {
+			this.previewSchedule(ev.action, message.settings);
+		} else if (!(await handleInterpreterMessage(ev)) && !(await handleLastErrorMessage(ev)) && !(await handleRunHistoryMessage(ev))) {
+			await handleTrustMessage(ev);
+		}
+	}
 
 	/**
 	 * Listens for the {@link SingletonAction.onKeyDown} event which is emitted by Stream Deck when an action is pressed. Stream Deck provides various events for tracking interaction
 	 * with devices including key down/up, dial rotations, and device connectivity, etc. When triggered, {@link ev} object contains information about the event including any payloads
-	 * and action information where applicable. In this example, our action will display a counter that increments by one each press. We track the current count on the action's persisted
-	 * settings using `setSettings` and `getSettings`.
+	 * and action information where applicable. While the script of the key is running, the press is only decided on key up,
+	 * holding the key for {@link longPressMs} aborts the running script instead. Holding it while the pinned script changed trusts the new version.
 	 */
 	async onKeyDown(ev: KeyDownEvent<PythonServiceSettings>): Promise<void> {
-		// Update the count from the settings.
-		const isRunning = pyBGService.getState() === ServiceState.running;
+		if (scriptTrust.handleKeyDown(ev)) {
+			return;
+		}
+		if (ev.payload.settings.master || !pyBGService.isBusy(ev.action.id)) {
+			this.toggleService(ev);
+			return;
+		}
+
+		const timer = setTimeout(() => {
+			this.pendingPresses.delete(ev.action.id);
+			if (pyBGService.abort(ev.action.id)) {
+				ev.action.showOk();
+			}
+		}, longPressMs);
+		this.pendingPresses.set(ev.action.id, { ev, timer });
+	}
+
+	onKeyUp(ev: KeyUpEvent<PythonServiceSettings>): Promise<void> | void {
+		if (scriptTrust.handleKeyUp(ev)) {
+			return;
+		}
+		const pending = this.pendingPresses.get(ev.action.id);
+		if (pending) {
+			clearTimeout(pending.timer);
+			this.pendingPresses.delete(ev.action.id);
+			this.toggleService(pending.ev);
+		}
+	}
+
+	/**
+	 * Pressing the dial starts or stops the service like a key press.
+	 */
+	onDialDown(ev: DialDownEvent<PythonServiceSettings>): Promise<void> | void {
+		this.toggleService(ev);
+	}
+
+	/**
+	 * Turning the dial runs the script once with the rotation in `STREAMDECK_TICKS`, touching the strip runs it right away.
+	 */
+	onDialRotate(ev: DialRotateEvent<PythonServiceSettings>): Promise<void> | void {
+		if (!ev.payload.settings.master) {
+			pyBGService.rotate(ev);
+		}
+	}
+
+	onTouchTap(ev: TouchTapEvent<PythonServiceSettings>): Promise<void> | void {
+		if (!ev.payload.settings.master) {
+			pyBGService.executeAction(ev, "touchTap");
+		}
+	}
+
+	toggleService(ev: KeyDownEvent<PythonServiceSettings> | DialDownEvent<PythonServiceSettings>) {
+		if (ev.payload.settings.master) {
+			pyBGService.toggleAll(ev);
+			return;
+		}
+
+		const isRunning = pyBGService.getState(ev.action.id) === ServiceState.running;
 		if (isRunning) {
 			pyBGService.stop(ev);
 			return;
@@ -85,20 +172,57 @@ export class PythonService extends SingletonAction<PythonServiceSettings> {
 	}
 
 
-	getFileNameFromPath(path: string): string {
-		const fileName = path.substring(path.lastIndexOf("/") + 1);
-		return fileName;
+	/**
+	 * Migrates legacy value/image pairs to output rules and persists the result.
+	 */
+	migrateSettings(ev: WillAppearEvent<PythonServiceSettings> | DidReceiveSettingsEvent<PythonServiceSettings>): PythonServiceSettings {
+		const migrated = migrateOutputRules<PythonServiceSettings & LegacyOutputSettings>(ev.payload.settings);
+		if (migrated) {
+			ev.payload.settings = migrated;
+			ev.action.setSettings(migrated);
+		}
+		return ev.payload.settings;
 	}
 
 	checkSettingsComplete(settings: PythonServiceSettings): boolean {
+		if (settings.master) {
+			return true;
+		}
 		const interval = this.getInterval(settings.interval);
-		if (settings.path && interval) {
+		if (settings.path && (settings.mode === "persistent" || (settings.mode === "cron" ? this.isValidCron(settings.cron) : interval))) {
 			streamDeck.logger.info("settings complete");
 			return true;
 		}
 		return false;
 	}
 
+	/**
+	 * Sends the next run times of the schedule to the property inspector, or why there are none.
+	 */
+	previewSchedule(action: Action<PythonServiceSettings>, settings: PythonServiceSettings) {
+		let times: string[] = [];
+		let error: string | undefined;
+		if (settings.mode === "persistent") {
+			error = "persistent workers run continuously";
+		} else {
+			try {
+				times = getNextRunTimes(settings, settings.mode === "cron" ? "cron" : "interval", new Date(), schedulePreviewCount).map(time => time.toISOString());
+			} catch (cronError) {
+				error = `invalid cron expression: ${(cronError as Error).message}`;
+			}
+		}
+		action.sendToPropertyInspector({ event: "schedulePreview", times, error: error ?? null });
+	}
+
+	private isValidCron(cron: string | undefined): boolean {
+		try {
+			parseCron(cron ?? "");
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
 	private getInterval(value: PythonServiceSettings["interval"]): number | undefined {
 		if (typeof value === "number") {
 			return Number.isFinite(value) && value > 0 ? value : undefined;
@@ -111,40 +235,22 @@ export class PythonService extends SingletonAction<PythonServiceSettings> {
 		}
 		return undefined;
 	}
-
-	/**
-	 * Normalizes the virtual environment path.
-	 * If the path points to a pyvenv.cfg file, returns its parent directory.
-	 * Otherwise, returns the path as-is.
-	 */
-	normalizeVenvPath(venvPath: string): string {
-		try {
-			// Check if the path points to a file (likely pyvenv.cfg)
-			if (fs.existsSync(venvPath) && fs.statSync(venvPath).isFile()) {
-				// Return the parent directory
-				return path.dirname(venvPath);
-			}
-		} catch (error) {
-			streamDeck.logger.warn(`Could not check venv path: ${error}`);
-		}
-		// If it's already a directory or doesn't exist yet, return as-is
-		return venvPath;
-	}
 }
 
+export type ServiceMode = "interval" | "cron" | "persistent";
+
 /**
  * Settings for {@link PythonScript}.
  */
-export type PythonServiceSettings = {
-	path?: string;
-	value1?: string;
-	image1?: string;
-	value2?: string;
-	image2?: string;
-	displayValues?: boolean;
-	useVenv?: boolean;
-	venvPath?: string;
-	interval?: number | string;
-	id?: string;
+export type PythonServiceSettings = KeyScriptSettings & ScheduleSettings & {
+	/**
+	 * `interval` spawns the script on every tick, `cron` at the times of the cron expression,
+	 * `persistent` keeps one process running and reads its output line by line.
+	 */
+	mode?: ServiceMode;
+	/**
+	 * A master key runs no script itself, it starts and stops all other service keys together.
+	 */
+	master?: boolean;
 
 };
@@ -0,0 +1,254 @@
+import streamDeck, { action, DidReceiveSettingsEvent, KeyDownEvent, KeyUpEvent, SendToPluginEvent, SingletonAction, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
+import { forgetVisibleKey, trackVisibleKey, withGlobalDefaults } from "../global-settings";
+import { keyBridge } from "../key-bridge";
+import { getScriptContext, handleInterpreterMessage, handleLastErrorMessage, handleRunHistoryMessage, handleTrustMessage, KeyScriptSettings, reportBlockedRun, runScriptOnKey, toggleImages } from "../key-runner";
+import { processTracker } from "../runner/process-tracker";
+import { PythonRun, RunResult } from "../runner/python-run";
+import { buildScriptInvocation } from "../runner/script-environment";
+import { forgetScriptSettings } from "../script-api";
+import { parseScriptOutput } from "../script-output";
+import { scriptTrust } from "../script-trust";
+import { scriptTriggers } from "../triggers";
+
+/**
+ * States of the toggle, in the order of the manifest.
+ */
+export enum ToggleState {
+	off = 0,
+	on = 1
+}
+
+/**
+ * Probe output that means on or off, compared case insensitive.
+ */
+const onWords = ["on", "true", "1", "yes", "running", "active", "connected", "up"];
+const offWords = ["off", "false", "0", "no", "stopped", "inactive", "disconnected", "down"];
+
+/**
+ * Seconds a probe may take when the key sets no timeout, a probe that hangs would otherwise block all later ones.
+ */
+const defaultProbeTimeoutSeconds = 30;
+
+@action({ UUID: "com.nicoohagedorn.pythonscriptdeck.toggle" })
+export class PythonToggle extends SingletonAction<PythonToggleSettings> {
+	/**
+	 * The state every visible key is in, keyed by action id.
+	 */
+	private states = new Map<string, ToggleState>();
+
+	/**
+	 * Timers that probe the state of the keys, keyed by action id.
+	 */
+	private probeTimers = new Map<string, NodeJS.Timeout>();
+
+	/**
+	 * Keys whose probe may not run, the problem is only reported once.
+	 */
+	private blockedProbes = new Set<string>();
+
+	onWillAppear(ev: WillAppearEvent<PythonToggleSettings>): void | Promise<void> {
+		forgetScriptSettings(ev.action.id);
+		trackVisibleKey(ev.action);
+		const payload = ev.payload as { state?: ToggleState };
+		this.states.set(ev.action.id, payload.state ?? ToggleState.off);
+		scriptTrust.pin(ev, [ev.payload.settings.path, ev.payload.settings.offPath, ev.payload.settings.probePath]);
+		this.registerKey(ev);
+	}
+
+	onDidReceiveSettings(ev: DidReceiveSettingsEvent<PythonToggleSettings>): Promise<void> | void {
+		forgetScriptSettings(ev.action.id);
+		scriptTrust.pin(ev, [ev.payload.settings.path, ev.payload.settings.offPath, ev.payload.settings.probePath]);
+		this.registerKey(ev);
+	}
+
+	onWillDisappear(ev: WillDisappearEvent<PythonToggleSettings>): Promise<void> | void {
+		clearInterval(this.probeTimers.get(ev.action.id));
+		this.probeTimers.delete(ev.action.id);
+		this.states.delete(ev.action.id);
+		this.blockedProbes.delete(ev.action.id);
+		processTracker.abort(getProbeRunId(ev.action.id));
+		forgetVisibleKey(ev.action.id);
+		scriptTriggers.unregister(ev.action.id);
+		keyBridge.unregister(ev.action.id);
+	}
+
+	/**
+	 * Answers the interpreter search and selection, the last error, the run history and the dry run requests of the property inspector.
+	 * The dry run shows the on script.
+	 */
+	async onSendToPlugin(ev: SendToPluginEvent<object, PythonToggleSettings>): Promise<void> {
+		if (!(await handleInterpreterMessage(ev)) && !(await handleLastErrorMessage(ev)) && !(await handleRunHistoryMessage(ev))) {
+			await handleTrustMessage(ev);
+		}
+	}
+
+	/**
+	 * Toggles on key down. While a pinned script changed, holding the key trusts the new version instead.
+	 */
+	onKeyDown(ev: KeyDownEvent<PythonToggleSettings>): Promise<void> | void {
+		if (!scriptTrust.handleKeyDown(ev)) {
+			this.toggle(ev, "keyDown");
+		}
+	}
+
+	onKeyUp(ev: KeyUpEvent<PythonToggleSettings>): Promise<void> | void {
+		scriptTrust.handleKeyUp(ev);
+	}
+
+	/**
+	 * Runs the on script of a key that is off, the off script of a key that is on. The key switches its state once the script exited
+	 * with code 0, a script that failed or was killed, e.g. by its timeout, leaves the state as it is. A configured probe then checks
+	 * the actual state. Re-runs from the run history pass `toggleOn` or `toggleOff` and run that script regardless of the state.
+	 */
+	toggle(ev: ToggleEvent, trigger: string) {
+		const settings = ev.payload.settings;
+		const target = trigger === "toggleOn" ? ToggleState.on
+			: trigger === "toggleOff" ? ToggleState.off
+			: this.states.get(ev.action.id) === ToggleState.on ? ToggleState.off : ToggleState.on;
+		const scriptPath = target === ToggleState.on ? settings.path : settings.offPath?.trim() || settings.path;
+		if (!scriptPath) {
+			streamDeck.logger.warn(`toggle ${ev.action.id} has no script`);
+			ev.action.showAlert();
+			return;
+		}
+
+		runScriptOnKey(ev, { ...settings, path: scriptPath }, {
+			images: toggleImages,
+			showRunning: settings.showRunning !== false,
+			trigger: target === ToggleState.on ? "toggleOn" : "toggleOff",
+			onExit: result => {
+				if (result.exitCode === 0 && !result.signal) {
+					this.applyState(ev, target, !result.stdout.trim());
+				}
+				if (settings.probePath) {
+					this.probe(ev);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Runs the probe script of the key and sets the state from its output. Probes are not recorded in the run history,
+	 * a probe that fails with a traceback or is killed by its timeout leaves the state as it is. A probe is never started twice,
+	 * nor while the on or off script runs. A probe that may not run is reported on the key once.
+	 */
+	probe(ev: ToggleEvent) {
+		const settings = withGlobalDefaults({ ...ev.payload.settings, path: ev.payload.settings.probePath });
+		const scriptPath = settings.path;
+		const probeRunId = getProbeRunId(ev.action.id);
+		if (!scriptPath || processTracker.isRunning(probeRunId) || processTracker.isRunning(ev.action.id)) {
+			return;
+		}
+		const trustProblem = scriptTrust.check(ev.action.id, ev.payload.settings, scriptPath, settings);
+		if (trustProblem) {
+			if (!this.blockedProbes.has(ev.action.id)) {
+				this.blockedProbes.add(ev.action.id);
+				reportBlockedRun(ev.action, scriptPath, trustProblem, toggleImages);
+			}
+			return;
+		}
+		this.blockedProbes.delete(ev.action.id);
+
+		const context = { ...getScriptContext(ev, settings.id), trigger: "probe" };
+		const run = new PythonRun({ ...settings, scriptPath, invocation: buildScriptInvocation(settings, scriptPath, context) });
+		run.on("exit", (result: RunResult) => {
+			if (!this.states.has(ev.action.id)) {
+				return;
+			}
+			const state = parseProbeResult(result);
+			if (state === undefined) {
+				streamDeck.logger.warn(`probe ${scriptPath} reported no state: ${result.error?.message ?? result.stdout.trim()}`);
+				return;
+			}
+			if (state !== this.states.get(ev.action.id)) {
+				this.applyState(ev, state, true);
+			}
+		});
+		processTracker.run(probeRunId, () => run.start(), {
+			timeout: settings.timeout || defaultProbeTimeoutSeconds,
+			onTimeout: () => streamDeck.logger.warn(`probe ${scriptPath} did not answer in time`)
+		});
+	}
+
+	/**
+	 * Shows the state on the key. `resetTitle` brings back the title of the state, e.g. after an error was shown.
+	 */
+	private applyState(ev: ToggleEvent, state: ToggleState, resetTitle: boolean) {
+		this.states.set(ev.action.id, state);
+		ev.action.setState(state);
+		// drop the running or error image, the key shows the image of its state again
+		ev.action.setImage();
+		if (resetTitle) {
+			ev.action.setTitle();
+		}
+	}
+
+	/**
+	 * Probes the state right away and then on the interval of the settings. Named keys can be toggled through the bridge,
+	 * the run history re-runs through the triggers.
+	 */
+	private registerKey(ev: ToggleEvent) {
+		clearInterval(this.probeTimers.get(ev.action.id));
+		this.probeTimers.delete(ev.action.id);
+		this.blockedProbes.delete(ev.action.id);
+		scriptTriggers.register(ev.action.id, ev.deviceId, ev.payload.settings, trigger => this.toggle(ev, trigger));
+		keyBridge.register(ev.action.id, ev.payload.settings.id, ev.action, () => this.toggle(ev, "bridge"));
+		if (!ev.payload.settings.probePath) {
+			return;
+		}
+
+		this.probe(ev);
+		const interval = Number(ev.payload.settings.probeInterval);
+		if (Number.isFinite(interval) && interval > 0) {
+			this.probeTimers.set(ev.action.id, setInterval(() => this.probe(ev), interval * 1000));
+		}
+	}
+}
+
+type ToggleEvent = WillAppearEvent<PythonToggleSettings> | DidReceiveSettingsEvent<PythonToggleSettings> | KeyDownEvent<PythonToggleSettings>;
+
+/**
+ * Probes are tracked apart from the on and off scripts of the key, so they can time out and be killed on their own.
+ */
+function getProbeRunId(actionId: string): string {
+	return `${actionId}:probe`;
+}
+
+/**
+ * Reads the state from the probe: the `state` of structured output, a word like `on` or `off` on the last line,
+ * or without output the exit code, 0 meaning on. A probe that was killed, e.g. by its timeout, reports no state.
+ */
+export function parseProbeResult(result: RunResult): ToggleState | undefined {
+	if (result.error?.traceback || result.signal) {
+		return undefined;
+	}
+	const output = result.stdout.trim();
+	if (!output) {
+		return result.exitCode === 0 ? ToggleState.on : ToggleState.off;
+	}
+	const structuredOutput = parseScriptOutput(output);
+	if (structuredOutput) {
+		return structuredOutput.state;
+	}
+	const word = output.split(/\r?\n/).pop()?.trim().toLowerCase() ?? "";
+	if (onWords.includes(word)) {
+		return ToggleState.on;
+	}
+	return offWords.includes(word) ? ToggleState.off : undefined;
+}
+
+/**
+ * Settings for {@link PythonToggle}. `path` is the on script, the off script defaults to it, the script can tell both apart
+ * by `STREAMDECK_TRIGGER` (`toggleOn` or `toggleOff`).
+ */
+export type PythonToggleSettings = KeyScriptSettings & {
+	offPath?: string;
+	/**
+	 * Reports the actual state of what the key switches, see {@link parseProbeResult}.
+	 */
+	probePath?: string;
+	/**
+	 * Seconds between probes, empty or 0 only probes when the key appears and after toggling.
+	 */
+	probeInterval?: number | string;
+};
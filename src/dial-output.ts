@@ -0,0 +1,68 @@
+import { Action, FeedbackPayload, PayloadObject } from "@elgato/streamdeck";
+import { findMatchingRule, OutputRule, parseNumber } from "./output-rules";
+import { applyScriptOutput, parseScriptOutput } from "./script-output";
+
+/**
+ * Settings for the touch strip of dials.
+ */
+export type DialSettings = {
+	/**
+	 * Shows numeric output as a progress bar beneath the value.
+	 */
+	showProgress?: boolean;
+	/**
+	 * Output value of an empty bar, defaults to 0.
+	 */
+	progressMin?: number | string;
+	/**
+	 * Output value of a full bar, defaults to 100.
+	 */
+	progressMax?: number | string;
+};
+
+type DialOutputSettings = DialSettings & {
+	rules?: OutputRule[];
+};
+
+/**
+ * Shows script output on the touch strip layout (`layouts/python-value.json`) with its `title`, `value` and `indicator` items.
+ * JSON objects set the title, value and progress directly; plain text becomes the value, formatted by the matching
+ * output rule, and drives the progress bar if enabled.
+ */
+export async function applyDialOutput<T extends PayloadObject<T>>(action: Action<T>, settings: DialOutputSettings, output: string): Promise<void> {
+	const structuredOutput = parseScriptOutput(output);
+	const feedback: FeedbackPayload = {};
+	let progress: number | undefined;
+
+	if (structuredOutput) {
+		await applyScriptOutput(action, structuredOutput);
+		if (structuredOutput.value !== undefined) {
+			feedback.value = { value: structuredOutput.value, color: "white" };
+		}
+		progress = structuredOutput.progress;
+	} else {
+		const rule = findMatchingRule(settings.rules, output);
+		const value = rule?.title ? rule.title.replace(/\{value\}/g, output) : output;
+		feedback.value = { value, color: rule?.titleColor || "white" };
+		progress = settings.showProgress ? getProgress(output, settings) : undefined;
+	}
+
+	feedback.indicator = progress !== undefined ? { value: progress, opacity: 1 } : { opacity: 0 };
+	await action.setFeedback(feedback);
+}
+
+/**
+ * Maps the first number of the output from the configured range to percent.
+ */
+function getProgress(output: string, settings: DialSettings): number | undefined {
+	const value = parseNumber(output);
+	if (value === undefined) {
+		return undefined;
+	}
+	const min = parseNumber(settings.progressMin) ?? 0;
+	const max = parseNumber(settings.progressMax) ?? 100;
+	if (max === min) {
+		return undefined;
+	}
+	return Math.min(100, Math.max(0, ((value - min) / (max - min)) * 100));
+}
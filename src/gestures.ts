@@ -0,0 +1,59 @@
+import { KeyScriptSettings } from "./key-runner";
+import { longPressMs } from "./runner/process-tracker";
+
+/**
+ * The gestures a key reacts to. `keyDown` is the plain press that runs the script of the key,
+ * the others run their own binding if enabled. The gesture is passed to the script as `STREAMDECK_TRIGGER`.
+ */
+export type Gesture = "keyDown" | "keyUp" | "longPress" | "doublePress";
+
+/**
+ * Gestures that can be bound to a script of their own.
+ */
+export type BoundGesture = Exclude<Gesture, "keyDown">;
+
+/**
+ * Settings of the gesture bindings. A binding without a path runs the script of the key,
+ * a binding without arguments uses the arguments of the key.
+ */
+export type GestureSettings = {
+	keyUpEnabled?: boolean;
+	keyUpPath?: string;
+	keyUpArgs?: string;
+	longPressEnabled?: boolean;
+	longPressPath?: string;
+	longPressArgs?: string;
+	doublePressEnabled?: boolean;
+	doublePressPath?: string;
+	doublePressArgs?: string;
+	/**
+	 * Milliseconds a key has to be held for a long press, defaults to {@link longPressMs}.
+	 */
+	longPressThreshold?: number | string;
+};
+
+/**
+ * Milliseconds to wait for the second press of a double press. Single presses are delayed by this much while double press is enabled.
+ */
+export const doublePressMs = 300;
+
+export function isGestureEnabled(settings: GestureSettings, gesture: BoundGesture): boolean {
+	return Boolean(settings[`${gesture}Enabled`]);
+}
+
+/**
+ * Returns the settings to run for the gesture: the settings of the key with the script and arguments of the binding.
+ */
+export function getGestureSettings<T extends KeyScriptSettings & GestureSettings>(settings: T, gesture: Gesture): T {
+	if (gesture === "keyDown") {
+		return settings;
+	}
+	const path = settings[`${gesture}Path`]?.trim();
+	const args = settings[`${gesture}Args`]?.trim();
+	return { ...settings, path: path || settings.path, args: args || settings.args };
+}
+
+export function getLongPressThreshold(settings: GestureSettings): number {
+	const threshold = Number(settings.longPressThreshold);
+	return settings.longPressThreshold !== undefined && settings.longPressThreshold !== "" && Number.isFinite(threshold) && threshold > 0 ? threshold : longPressMs;
+}
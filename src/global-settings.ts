@@ -0,0 +1,145 @@
+import streamDeck, { Action, PayloadObject } from "@elgato/streamdeck";
+import * as path from "node:path";
+import { getInterpreterKind, InterpreterKind, InterpreterSettings } from "./runner/interpreter";
+import { ScriptEnvironmentSettings } from "./runner/script-environment";
+
+/**
+ * Settings shared by all keys, stored in the global settings of the plugin.
+ */
+export type PluginGlobalSettings = {
+	/**
+	 * Starts the local HTTP and WebSocket bridge.
+	 */
+	bridgeEnabled?: boolean;
+	bridgePort?: number | string;
+	/**
+	 * Token clients have to send, generated when the bridge is enabled without one.
+	 */
+	bridgeToken?: string;
+	/**
+	 * Interpreter of keys that select the default interpreter, `system` when empty.
+	 */
+	defaultInterpreter?: Exclude<InterpreterKind, "default">;
+	defaultVenvPath?: string;
+	defaultCondaEnv?: string;
+	defaultPyenvVersion?: string;
+	defaultPythonPath?: string;
+	/**
+	 * Folder relative script paths are resolved against, so profiles work on machines with a different folder layout.
+	 */
+	scriptsRoot?: string;
+	/**
+	 * Environment variables of all scripts, one `KEY=value` per line. Variables of the key take precedence.
+	 */
+	sharedEnv?: string;
+	/**
+	 * Folders scripts have to be in to run, one per line. Scripts run from anywhere when empty.
+	 */
+	allowedRoots?: string;
+};
+
+/**
+ * Settings of a key or step that can inherit from the global settings.
+ */
+export type InheritableSettings = InterpreterSettings & ScriptEnvironmentSettings & {
+	path?: string;
+	/**
+	 * Adds the shared environment variables of the global settings, enabled unless set to `false`.
+	 */
+	inheritEnv?: boolean;
+};
+
+type GlobalSettingsListener = (settings: PluginGlobalSettings) => void;
+
+const listeners: GlobalSettingsListener[] = [];
+
+let current: PluginGlobalSettings = {};
+
+/**
+ * Requests the settings of every visible key again, keyed by action id. Keys appear before the global settings arrive,
+ * so keys with paths relative to the scripts root are refreshed once it is known, and again whenever it changes.
+ */
+const visibleKeys = new Map<string, () => Promise<unknown>>();
+
+/**
+ * Calls the listener whenever the global settings are received or changed.
+ */
+export function onGlobalSettings(listener: GlobalSettingsListener) {
+	listeners.push(listener);
+}
+
+export function getGlobalSettings(): PluginGlobalSettings {
+	return current;
+}
+
+/**
+ * Requests the global settings once connected; they arrive, like every later change from a property inspector,
+ * as didReceiveGlobalSettings event and are forwarded to the listeners.
+ */
+export async function loadGlobalSettings() {
+	streamDeck.settings.onDidReceiveGlobalSettings<PluginGlobalSettings>(ev => notify(ev.settings));
+	await streamDeck.settings.getGlobalSettings<PluginGlobalSettings>();
+}
+
+/**
+ * Merges the changes into the global settings.
+ */
+export async function updateGlobalSettings(changes: Partial<PluginGlobalSettings>) {
+	const settings = { ...current, ...changes };
+	await streamDeck.settings.setGlobalSettings(settings);
+	notify(settings);
+}
+
+/**
+ * Refreshes the key through its didReceiveSettings event when the scripts root changes, until {@link forgetVisibleKey} is called.
+ */
+export function trackVisibleKey<T extends PayloadObject<T>>(action: Action<T>) {
+	visibleKeys.set(action.id, () => action.getSettings());
+}
+
+export function forgetVisibleKey(actionId: string) {
+	visibleKeys.delete(actionId);
+}
+
+function notify(settings: PluginGlobalSettings) {
+	const rootChanged = (settings.scriptsRoot?.trim() || "") !== (current.scriptsRoot?.trim() || "");
+	current = settings;
+	listeners.forEach(listener => listener(settings));
+	if (rootChanged) {
+		visibleKeys.forEach(refresh => refresh());
+	}
+}
+
+/**
+ * Fills in what the settings inherit from the global settings: the default interpreter, the scripts root for relative paths
+ * and the shared environment variables. Settings that select their own interpreter or use an absolute path keep them.
+ */
+export function withGlobalDefaults<T extends InheritableSettings>(settings: T): T {
+	const resolved: T = { ...settings };
+	if (getInterpreterKind(settings) === "default") {
+		Object.assign(resolved, {
+			interpreter: current.defaultInterpreter || "system",
+			useVenv: false,
+			venvPath: current.defaultVenvPath,
+			condaEnv: current.defaultCondaEnv,
+			pyenvVersion: current.defaultPyenvVersion,
+			pythonPath: current.defaultPythonPath
+		});
+	}
+	resolved.path = resolveScriptPath(settings.path);
+	if (settings.inheritEnv !== false && current.sharedEnv?.trim()) {
+		resolved.env = settings.env ? `${current.sharedEnv}\n${settings.env}` : current.sharedEnv;
+	}
+	return resolved;
+}
+
+/**
+ * Resolves a relative script path against the scripts root. Absolute paths and paths without scripts root are returned as they are.
+ */
+export function resolveScriptPath(scriptPath: string | undefined): string | undefined {
+	const root = current.scriptsRoot?.trim();
+	if (!scriptPath || !root || path.isAbsolute(scriptPath)) {
+		return scriptPath;
+	}
+	return path.resolve(root, scriptPath);
+}
@@ -0,0 +1,249 @@
+import streamDeck, { Action, PayloadObject } from "@elgato/streamdeck";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import * as http from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+import { PluginGlobalSettings, updateGlobalSettings } from "./global-settings";
+import { applyScriptOutput, parseScriptOutput, ScriptOutput } from "./script-output";
+
+export const defaultBridgePort = 8765;
+
+/**
+ * Largest request body or message accepted, enough for images sent as data URIs.
+ */
+const maxBodyBytes = 1024 * 1024;
+
+type BridgeKey = {
+	name: string;
+	update: (output: ScriptOutput) => Promise<void>;
+	run: () => void;
+};
+
+/**
+ * Message of a WebSocket client: a {@link ScriptOutput} for the key, or `"action": "run"` to run its script.
+ */
+type BridgeMessage = ScriptOutput & {
+	key?: string;
+	action?: "run";
+};
+
+/**
+ * Error answered to the client with its HTTP status.
+ */
+class BridgeError extends Error {
+	constructor(
+		readonly status: number,
+		message: string
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Local HTTP and WebSocket endpoint that lets other processes update keys and run their scripts.
+ * Keys are addressed by the name the user gave them, several keys can share a name and are updated together.
+ * The bridge only listens on 127.0.0.1 and every request has to carry the token of the global settings.
+ */
+class KeyBridge {
+	private keys = new Map<string, BridgeKey>();
+	private server?: http.Server;
+	private sockets?: WebSocketServer;
+	private port?: number;
+	private token?: string;
+
+	/**
+	 * Registers or updates the key of an action, keys without name are not reachable through the bridge.
+	 */
+	register<T extends PayloadObject<T>>(actionId: string, name: string | undefined, action: Action<T>, run: () => void) {
+		const trimmed = name?.trim();
+		if (!trimmed) {
+			this.keys.delete(actionId);
+			return;
+		}
+		this.keys.set(actionId, { name: trimmed, update: output => applyScriptOutput(action, output), run });
+	}
+
+	unregister(actionId: string) {
+		this.keys.delete(actionId);
+	}
+
+	/**
+	 * Starts, restarts or stops the bridge for the global settings. Enabling it without a token generates one,
+	 * the updated settings then configure the bridge again.
+	 */
+	configure(settings: PluginGlobalSettings) {
+		if (!settings.bridgeEnabled) {
+			this.stop();
+			return;
+		}
+		if (!settings.bridgeToken) {
+			updateGlobalSettings({ bridgeToken: randomBytes(24).toString("hex") });
+			return;
+		}
+		this.token = settings.bridgeToken;
+		const port = getBridgePort(settings);
+		if (this.server && this.port === port) {
+			return;
+		}
+		this.stop();
+		this.start(port);
+	}
+
+	private start(port: number) {
+		this.port = port;
+		this.sockets = new WebSocketServer({ noServer: true, maxPayload: maxBodyBytes });
+		this.sockets.on("connection", socket => socket.on("message", data => this.handleMessage(socket, data.toString())));
+
+		const server = http.createServer((request, response) => this.handleRequest(request, response));
+		this.server = server;
+		server.on("upgrade", (request, socket, head) => {
+			const url = new URL(request.url ?? "/", "http://localhost");
+			if (url.pathname !== "/ws" || !this.isAuthorized(request, url)) {
+				socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+				return;
+			}
+			this.sockets?.handleUpgrade(request, socket, head, client => this.sockets?.emit("connection", client, request));
+		});
+		server.on("error", error => {
+			streamDeck.logger.error(`bridge on port ${port} failed: ${error.message}`);
+			// e.g. the port is in use, forgetting the server lets the next configuration try again
+			if (this.server === server) {
+				this.stop();
+			}
+		});
+		server.listen(port, "127.0.0.1", () => streamDeck.logger.info(`bridge listening on 127.0.0.1:${port}`));
+	}
+
+	private stop() {
+		if (!this.server) {
+			return;
+		}
+		this.sockets?.clients.forEach(client => client.terminate());
+		this.sockets?.close();
+		this.server.close();
+		this.server = undefined;
+		this.sockets = undefined;
+		this.port = undefined;
+		streamDeck.logger.info("bridge stopped");
+	}
+
+	/**
+	 * `GET /keys` lists the key names, `POST /keys/{name}` applies the JSON body to the keys and `POST /keys/{name}/run` runs their scripts.
+	 */
+	private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+		try {
+			const url = new URL(request.url ?? "/", "http://localhost");
+			if (!this.isAuthorized(request, url)) {
+				throw new BridgeError(401, "invalid token");
+			}
+			const [collection, name, command] = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+			if (collection !== "keys") {
+				throw new BridgeError(404, "not found");
+			}
+			if (!name && request.method === "GET") {
+				sendJson(response, 200, { keys: this.getNames() });
+				return;
+			}
+			if (!name || request.method !== "POST" || (command !== undefined && command !== "run")) {
+				throw new BridgeError(405, "use GET /keys, POST /keys/{name} or POST /keys/{name}/run");
+			}
+			const keys = command === "run" ? this.run(name) : await this.update(name, await readBody(request));
+			sendJson(response, 200, { ok: true, keys });
+		} catch (error) {
+			const status = error instanceof BridgeError ? error.status : 500;
+			sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	private async handleMessage(socket: WebSocket, data: string) {
+		try {
+			let message: BridgeMessage;
+			try {
+				message = JSON.parse(data);
+			} catch {
+				throw new BridgeError(400, "message is not JSON");
+			}
+			if (typeof message?.key !== "string") {
+				throw new BridgeError(400, "message has no key");
+			}
+			const keys = message.action === "run" ? this.run(message.key) : await this.update(message.key, data);
+			socket.send(JSON.stringify({ ok: true, keys }));
+		} catch (error) {
+			socket.send(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+		}
+	}
+
+	/**
+	 * Applies the JSON object to every key with the name and returns how many were updated.
+	 */
+	private async update(name: string, body: string): Promise<number> {
+		const output = parseScriptOutput(body);
+		if (!output) {
+			throw new BridgeError(400, "body is not a JSON object");
+		}
+		const keys = this.findKeys(name);
+		await Promise.all(keys.map(key => key.update(output)));
+		return keys.length;
+	}
+
+	private run(name: string): number {
+		const keys = this.findKeys(name);
+		keys.forEach(key => key.run());
+		return keys.length;
+	}
+
+	private findKeys(name: string): BridgeKey[] {
+		const keys = [...this.keys.values()].filter(key => key.name === name);
+		if (keys.length === 0) {
+			throw new BridgeError(404, `no key named "${name}"`);
+		}
+		return keys;
+	}
+
+	private getNames(): string[] {
+		return [...new Set([...this.keys.values()].map(key => key.name))].sort();
+	}
+
+	/**
+	 * Accepts the token as `Authorization: Bearer <token>` header or as `token` query parameter.
+	 */
+	private isAuthorized(request: http.IncomingMessage, url: URL): boolean {
+		const header = request.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+		const token = header ?? url.searchParams.get("token");
+		if (!this.token || !token) {
+			return false;
+		}
+		const expected = Buffer.from(this.token);
+		const actual = Buffer.from(token);
+		return expected.length === actual.length && timingSafeEqual(expected, actual);
+	}
+}
+
+function getBridgePort(settings: PluginGlobalSettings): number {
+	const port = Number(settings.bridgePort);
+	return Number.isInteger(port) && port > 0 && port < 65536 ? port : defaultBridgePort;
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		request.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > maxBodyBytes) {
+				reject(new BridgeError(413, "body too large"));
+				request.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		request.on("end", () => resolve(Buffer.concat(chunks).toString()));
+		request.on("error", reject);
+	});
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: object) {
+	response.writeHead(status, { "Content-Type": "application/json" });
+	response.end(JSON.stringify(body));
+}
+
+export const keyBridge = new KeyBridge();
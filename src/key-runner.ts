@@ -0,0 +1,495 @@
+import streamDeck, { Action, PayloadObject, SendToPluginEvent } from "@elgato/streamdeck";
+import { applyDialOutput, DialSettings } from "./dial-output";
+import { resolveScriptPath, withGlobalDefaults } from "./global-settings";
+import { LiveOutput, LiveOutputSettings } from "./live-output";
+import { applyOutputRules, OutputRule } from "./output-rules";
+import { renderProgressImage } from "./render/progress-image";
+import { isImageDataUri } from "./render/svg";
+import { applyValueImage, ValueImageSettings } from "./render/value-image";
+import { DependencySettings, ensureDependencies } from "./runner/dependencies";
+import { getFileNameFromPath, InterpreterSettings, resolvePythonCommand } from "./runner/interpreter";
+import { discoverInterpreters } from "./runner/interpreter-discovery";
+import { ProcessControlSettings, processTracker } from "./runner/process-tracker";
+import { lastErrors } from "./runner/last-errors";
+import { PythonError } from "./runner/python-errors";
+import { PythonRun, RunResult } from "./runner/python-run";
+import { runHistory } from "./runner/run-history";
+import { buildScriptInvocation, ScriptContext, ScriptEnvironmentSettings } from "./runner/script-environment";
+import { createScriptApi } from "./script-api";
+import { applyScriptOutput, parseScriptOutput } from "./script-output";
+import { scriptTrust, TrustSettings } from "./script-trust";
+import { scriptTriggers, TriggerSettings } from "./triggers";
+
+/**
+ * Images an action shows for the different phases of a script.
+ */
+export type KeyImages = {
+	idle: string;
+	venv: string;
+	failed: string;
+};
+
+export const scriptImages: KeyImages = {
+	idle: "imgs/actions/gemini_icons/pyFileLoaded.png",
+	venv: "imgs/actions/gemini_icons/pyVirtEnvActive.png",
+	failed: "imgs/actions/pyFilecheckFailed.png"
+};
+
+export const serviceImages: KeyImages = {
+	idle: "imgs/actions/pyServiceIcon.png",
+	venv: "imgs/actions/pyServiceIcon.png",
+	failed: "imgs/actions/pyServiceIconFail.png"
+};
+
+export const toggleImages: KeyImages = {
+	idle: "imgs/actions/pyServiceStopped.png",
+	venv: "imgs/actions/pyServiceStopped.png",
+	failed: "imgs/actions/pyServiceIconFail.png"
+};
+
+/**
+ * Shown while a script is running, if the action has the running indicator enabled.
+ */
+export const runningImage = "imgs/actions/pyScriptRunning.svg";
+
+/**
+ * All settings a key needs to run a script and show its result.
+ */
+export type KeyScriptSettings = InterpreterSettings & ProcessControlSettings & ScriptEnvironmentSettings & DialSettings & ValueImageSettings & TriggerSettings & DependencySettings & LiveOutputSettings & TrustSettings & {
+	path?: string;
+	rules?: OutputRule[];
+	displayValues?: boolean;
+	/**
+	 * Name the user gave the key, passed to the script as `STREAMDECK_KEY_NAME` and used to address the key through the bridge.
+	 */
+	id?: string;
+	/**
+	 * Adds the shared environment variables of the global settings, enabled unless set to `false`.
+	 */
+	inheritEnv?: boolean;
+};
+
+/**
+ * The parts of an action event the key runner works with.
+ */
+type KeyEventSource<T extends PayloadObject<T>> = {
+	action: Action<T>;
+	deviceId: string;
+	payload: { settings: T };
+};
+
+type KeyRunOptions = {
+	images: KeyImages;
+	showRunning: boolean;
+	keyName?: string;
+	/**
+	 * What started the run, passed to the script as `STREAMDECK_TRIGGER`. Defaults to `keyDown`.
+	 */
+	trigger?: string;
+	/**
+	 * Dial rotation passed to the script as `STREAMDECK_TICKS`.
+	 */
+	ticks?: number;
+	/**
+	 * The changed file passed to the script as `STREAMDECK_CHANGED_PATH`, for runs started by a file watch.
+	 */
+	changedPath?: string;
+	/**
+	 * Identifies the run for the concurrency policy, defaults to the action id. Runs with different ids don't block each other.
+	 */
+	runId?: string;
+	/**
+	 * Called with the result of every finished run, once the key is free for the next run.
+	 */
+	onExit?: (result: RunResult) => void;
+};
+
+/**
+ * Dial rotation that has not been passed to a script yet, keyed by action id.
+ */
+const pendingTicks = new Map<string, number>();
+
+/**
+ * Runs whose dependencies are being checked or installed, by run id.
+ */
+const preparingDependencies = new Set<string>();
+
+/**
+ * Reads the {@link ScriptContext} from any action event.
+ */
+export function getScriptContext<T extends PayloadObject<T>>(ev: KeyEventSource<T>, keyName?: string): ScriptContext {
+	const payload = ev.payload as { controller?: string; coordinates?: { column: number; row: number } };
+	return {
+		actionId: ev.action.id,
+		manifestId: ev.action.manifestId,
+		deviceId: ev.deviceId,
+		deviceName: streamDeck.devices.getDeviceById(ev.deviceId)?.name,
+		controller: payload.controller,
+		column: payload.coordinates?.column,
+		row: payload.coordinates?.row,
+		keyName
+	};
+}
+
+/**
+ * Shows which script the key runs: the environment image and name for keys not using the system python, the file name as title.
+ */
+export function showScriptIdentity<T extends PayloadObject<T>>(action: Action<T>, settings: KeyScriptSettings, images: KeyImages) {
+	if (!settings.path || !settings.path.includes(".py")) {
+		return;
+	}
+	let environmentName = "";
+	const resolved = withGlobalDefaults(settings);
+	const command = resolvePythonCommand(resolved, resolved.path ?? settings.path);
+	if (command.description) {
+		streamDeck.logger.info(`Using interpreter ${command.executable} (${command.description})`);
+		const [kind, name] = command.description.split(": ");
+		environmentName = name ? `${kind}:\n ${name}\n` : `${kind}\n`;
+		action.setImage(images.venv);
+	} else {
+		action.setImage(images.idle);
+	}
+	action.setTitle(`${environmentName}${getFileNameFromPath(settings.path)}`);
+}
+
+/**
+ * Answers the interpreter messages of the property inspector: `discoverInterpreters` replies with the interpreters found
+ * for the script, `useInterpreter` stores the selected interpreter in the settings. Returns `true` when the message was handled.
+ */
+export async function handleInterpreterMessage<T extends KeyScriptSettings & PayloadObject<T>>(ev: SendToPluginEvent<object, T>): Promise<boolean> {
+	const message = ev.payload as { event?: string; path?: string; settings?: InterpreterSettings };
+	if (message.event === "discoverInterpreters") {
+		// the script path comes with the message, requesting the settings would emit didReceiveSettings and restart services
+		const interpreters = await discoverInterpreters(resolveScriptPath(message.path));
+		await ev.action.sendToPropertyInspector({ event: "interpreters", interpreters });
+		return true;
+	}
+	if (message.event === "useInterpreter" && message.settings) {
+		const settings = await ev.action.getSettings();
+		await ev.action.setSettings({ ...settings, useVenv: false, ...message.settings });
+		// requesting the settings again emits didReceiveSettings, so the action and the property inspector pick up the change
+		await ev.action.getSettings();
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Answers the last error messages of the property inspector: `getLastError` replies with the last failed run of the key,
+ * `clearLastError` forgets it. Returns `true` when the message was handled.
+ */
+export async function handleLastErrorMessage<T extends PayloadObject<T>>(ev: SendToPluginEvent<object, T>): Promise<boolean> {
+	const message = ev.payload as { event?: string };
+	if (message.event === "clearLastError") {
+		lastErrors.clear(ev.action.id);
+	} else if (message.event !== "getLastError") {
+		return false;
+	}
+	await ev.action.sendToPropertyInspector({ event: "lastError", lastError: lastErrors.get(ev.action.id) ?? null });
+	return true;
+}
+
+/**
+ * Answers the run history requests of the property inspector: `getRunHistory`, `clearRunHistory` and `rerun`,
+ * which runs the script again with the trigger of the chosen run.
+ */
+export async function handleRunHistoryMessage<T extends PayloadObject<T>>(ev: SendToPluginEvent<object, T>): Promise<boolean> {
+	const message = ev.payload as { event?: string; timestamp?: number };
+	if (message.event === "rerun") {
+		const entry = message.timestamp !== undefined ? runHistory.find(ev.action.id, message.timestamp) : undefined;
+		if (!entry || !scriptTriggers.runNow(ev.action.id, entry.trigger, entry.changedPath, entry.scriptPath)) {
+			await ev.action.showAlert();
+		}
+		return true;
+	}
+	if (message.event === "clearRunHistory") {
+		runHistory.clear(ev.action.id);
+	} else if (message.event !== "getRunHistory") {
+		return false;
+	}
+	await ev.action.sendToPropertyInspector({ event: "runHistory", entries: runHistory.get(ev.action.id) });
+	return true;
+}
+
+/**
+ * Answers the trust requests of the property inspector: `dryRun` replies with the interpreter, command line and environment
+ * the script would run with and whether it may run, `trustScript` pins the current version of the script.
+ * `scriptPath` replaces the script of the settings, for keys that pick their script themselves. Returns `true` when the message was handled.
+ */
+export async function handleTrustMessage<T extends KeyScriptSettings & PayloadObject<T>>(ev: SendToPluginEvent<object, T>, scriptPath?: string): Promise<boolean> {
+	const message = ev.payload as { event?: string; settings?: KeyScriptSettings };
+	if ((message.event !== "dryRun" && message.event !== "trustScript") || !message.settings) {
+		return false;
+	}
+	const configuredPath = scriptPath ?? message.settings.path;
+	const resolved = withGlobalDefaults({ ...message.settings, path: configuredPath });
+	if (!configuredPath || !resolved.path) {
+		await ev.action.sendToPropertyInspector({ event: "dryRun", dryRun: null });
+		return true;
+	}
+	if (message.event === "trustScript") {
+		await scriptTrust.trust(ev.action, resolved.path);
+		return true;
+	}
+
+	const command = resolvePythonCommand(resolved, resolved.path);
+	// the property inspector knows no device, the device variables stay empty
+	const invocation = buildScriptInvocation(resolved, resolved.path, { actionId: ev.action.id, manifestId: ev.action.manifestId, deviceId: "", trigger: "dryRun" });
+	const env = { ...invocation.env, ...command.env };
+	await ev.action.sendToPropertyInspector({
+		event: "dryRun",
+		dryRun: {
+			scriptPath: resolved.path,
+			interpreter: command.description || "system python",
+			commandLine: [command.executable, ...command.args, resolved.path, ...invocation.args].map(quoteArgument).join(" "),
+			cwd: invocation.cwd,
+			// only what the plugin adds to or changes in its own environment
+			env: Object.fromEntries(Object.entries(env).filter(([key, value]) => process.env[key] !== value)),
+			trust: scriptTrust.inspect(message.settings, resolved.path, resolved)
+		}
+	});
+	return true;
+}
+
+function quoteArgument(argument: string): string {
+	return /^[\w./\\:=@+-]+$/.test(argument) ? argument : JSON.stringify(argument);
+}
+
+/**
+ * Adds the finished run to the run history of the key and shows it in the property inspector, if open.
+ */
+export function recordRun<T extends PayloadObject<T>>(action: Action<T>, scriptPath: string, trigger: string, result: RunResult, changedPath?: string) {
+	const entry = runHistory.record(action.id, scriptPath, trigger, result, changedPath);
+	action.sendToPropertyInspector({ event: "runHistoryEntry", entry });
+}
+
+/**
+ * Applies script output to the key: image data URIs as they are, JSON objects field by field, plain text through the output rules
+ * or as value image. Dials show the output on the touch strip instead.
+ */
+export function showScriptOutput<T extends PayloadObject<T>>(action: Action<T>, settings: KeyScriptSettings, output: string, images: KeyImages, controller?: string) {
+	if (controller === "Encoder") {
+		applyDialOutput(action, settings, output);
+		return;
+	}
+	if (isImageDataUri(output)) {
+		action.setImage(output.trim());
+		return;
+	}
+	const structuredOutput = parseScriptOutput(output);
+	if (structuredOutput) {
+		if (settings.renderValue && structuredOutput.value !== undefined) {
+			// the value image replaces the image of the key, the other fields still apply on top of it
+			applyValueImage(action, settings, structuredOutput.value).then(() => applyScriptOutput(action, { ...structuredOutput, image: undefined }));
+		} else {
+			applyScriptOutput(action, structuredOutput);
+		}
+		return;
+	}
+	if (settings.renderValue) {
+		applyValueImage(action, settings, output);
+		return;
+	}
+	applyOutputRules(action, settings, output, images.idle);
+}
+
+/**
+ * Shows the progress a running script reported: on keys as an image filling up, on dials as progress bar.
+ */
+export function showScriptProgress<T extends PayloadObject<T>>(action: Action<T>, percent: number, controller?: string) {
+	if (controller === "Encoder") {
+		action.setFeedback({ value: `${Math.round(percent)}%`, indicator: { value: percent, opacity: 1 } });
+	} else {
+		action.setImage(renderProgressImage(percent));
+	}
+}
+
+/**
+ * Shows the classified error on the key, or on the touch strip for dials.
+ */
+export function showScriptError<T extends PayloadObject<T>>(action: Action<T>, error: PythonError, images: KeyImages, controller?: string) {
+	streamDeck.logger.error(`script failed: ${error.message}`);
+	if (controller === "Encoder") {
+		action.setFeedback({
+			title: error.title.replace(/\n/g, " "),
+			value: { value: error.traceback?.exceptionMessage || "failed", color: "#ff6b6b" },
+			indicator: { opacity: 0 }
+		});
+	} else {
+		action.setImage(images.failed);
+		action.setTitle(error.title);
+	}
+	action.showAlert();
+}
+
+/**
+ * Shows the error of a failed run on the key and keeps it as the last error of the key, an open property inspector is updated right away.
+ */
+export function reportScriptFailure<T extends PayloadObject<T>>(action: Action<T>, scriptPath: string, result: RunResult, images: KeyImages, controller?: string) {
+	if (!result.error) {
+		return;
+	}
+	const lastError = lastErrors.record(action.id, scriptPath, { ...result, error: result.error });
+	showScriptError(action, result.error, images, controller);
+	action.sendToPropertyInspector({ event: "lastError", lastError });
+}
+
+/**
+ * Reports a run that was not started, e.g. because of missing packages, like a failed run.
+ */
+export function reportBlockedRun<T extends PayloadObject<T>>(action: Action<T>, scriptPath: string, error: PythonError, images: KeyImages, controller?: string) {
+	reportScriptFailure(action, scriptPath, { stdout: "", stderr: error.message, exitCode: null, signal: null, durationMs: 0, error }, images, controller);
+}
+
+/**
+ * Runs the script of the key under the concurrency policy and timeout of its settings, with what it inherits from the global settings,
+ * and reflects the run on the key. Scripts outside the allowed roots or changed since they were pinned don't run. Keys that check their dependencies first prepare them, the run then starts once they are ready.
+ * Returns `false` when the run was skipped or queued.
+ */
+export function runScriptOnKey<T extends PayloadObject<T>>(ev: KeyEventSource<T>, settings: KeyScriptSettings, options: KeyRunOptions): boolean {
+	const resolved = withGlobalDefaults(settings);
+	const scriptPath = resolved.path;
+	if (!scriptPath) {
+		return false;
+	}
+	const controller = (ev.payload as { controller?: string }).controller;
+	const trustProblem = scriptTrust.check(ev.action.id, settings, scriptPath, resolved);
+	if (trustProblem) {
+		reportBlockedRun(ev.action, scriptPath, trustProblem, options.images, controller);
+		return false;
+	}
+	if (!settings.checkDependencies) {
+		return startScriptRun(ev, settings, resolved, scriptPath, options);
+	}
+
+	const runId = options.runId ?? ev.action.id;
+	if (preparingDependencies.has(runId)) {
+		streamDeck.logger.info(`dependencies of ${scriptPath} are still being prepared - skipping this run`);
+		return false;
+	}
+	preparingDependencies.add(runId);
+	let showedProgress = false;
+	const showProgress = (status: string) => {
+		showedProgress = true;
+		if (controller === "Encoder") {
+			ev.action.setFeedback({ value: status.replace(/\n/g, " "), indicator: { opacity: 0 } });
+		} else {
+			ev.action.setImage(runningImage);
+			ev.action.setTitle(status);
+		}
+	};
+	ensureDependencies(resolved, scriptPath, settings.installDependencies === true, showProgress).then(result => {
+		preparingDependencies.delete(runId);
+		if (result.status === "missing") {
+			reportBlockedRun(ev.action, scriptPath, { errorClass: "ModuleNotFoundError", title: "Missing\nPackages", message: result.message }, options.images, controller);
+			return;
+		}
+		if (showedProgress && controller !== "Encoder") {
+			showScriptIdentity(ev.action, settings, options.images);
+		}
+		startScriptRun(ev, settings, { ...resolved, ...result.settings }, scriptPath, options);
+	}).catch(error => {
+		// e.g. the environments folder is not writable, the next press tries again
+		preparingDependencies.delete(runId);
+		streamDeck.logger.error(`preparing the dependencies of ${scriptPath} failed: ${error}`);
+		reportBlockedRun(ev.action, scriptPath, { errorClass: "DependencyError", title: "Dependency\nError", message: `preparing the dependencies failed: ${error}` }, options.images, controller);
+	});
+	return true;
+}
+
+/**
+ * Starts the run of {@link runScriptOnKey} once the dependencies are ready.
+ */
+function startScriptRun<T extends PayloadObject<T>>(ev: KeyEventSource<T>, settings: KeyScriptSettings, resolved: KeyScriptSettings, scriptPath: string, options: KeyRunOptions): boolean {
+	let receivedOutput = false;
+	let lastResult: RunResult | undefined;
+	const context: ScriptContext = { ...getScriptContext(ev, options.keyName ?? settings.id), trigger: options.trigger ?? "keyDown", ticks: options.ticks, changedPath: options.changedPath };
+	return processTracker.run(options.runId ?? ev.action.id, () => {
+		streamDeck.logger.info(`path to script is: ${scriptPath}`);
+		const run = new PythonRun({
+			...resolved,
+			scriptPath,
+			invocation: buildScriptInvocation(resolved, scriptPath, context),
+			// otherwise progress and output lines only arrive when the output buffer of python is full
+			unbuffered: true,
+			rpcHandlers: createScriptApi(ev.action, ev.payload.settings)
+		});
+		let finished = false;
+		const liveOutput = new LiveOutput(settings.outputMode ?? "whole", output => {
+			receivedOutput = true;
+			streamDeck.logger.info(`stdout: ${output}`);
+			showScriptOutput(ev.action, settings, output, options.images, context.controller);
+		}, percent => showScriptProgress(ev.action, percent, context.controller), () => {
+			if (context.controller !== "Encoder") {
+				ev.action.setImage(options.showRunning && !finished ? runningImage : options.images.idle);
+			}
+		});
+		run.on("line", (line: string) => liveOutput.push(line));
+		run.on("stderr", (chunk: string) => streamDeck.logger.warn(`stderr: ${chunk.trim()}`));
+		run.on("exit", (result: RunResult) => {
+			lastResult = result;
+			finished = true;
+			liveOutput.end();
+			recordRun(ev.action, scriptPath, context.trigger ?? "keyDown", result, context.changedPath);
+			if (result.error) {
+				receivedOutput = true;
+				reportScriptFailure(ev.action, scriptPath, result, options.images, context.controller);
+			}
+		});
+
+		const child = run.start();
+		if (child && options.showRunning) {
+			ev.action.setImage(runningImage);
+		}
+		return child;
+	}, {
+		policy: settings.concurrency,
+		timeout: settings.timeout,
+		onTimeout: () => {
+			if (context.controller === "Encoder") {
+				ev.action.setFeedback({ value: { value: "Timeout", color: "#ff6b6b" }, indicator: { opacity: 0 } });
+			} else {
+				ev.action.setImage(options.images.failed);
+				ev.action.setTitle("Python\nTimeout");
+			}
+			ev.action.showAlert();
+		},
+		onExit: (code: number | null, killed: boolean) => {
+			if (!receivedOutput && !killed && options.showRunning) {
+				ev.action.setImage(options.images.idle);
+			}
+			if (lastResult) {
+				options.onExit?.(lastResult);
+			}
+		}
+	});
+}
+
+/**
+ * Runs the script of a dial with the rotation as `STREAMDECK_TICKS`. Rotation that arrives while the script
+ * is still running is added up and passed to the next run, so no ticks get lost when the dial is turned quickly.
+ */
+export function runScriptOnDialRotate<T extends PayloadObject<T>>(ev: KeyEventSource<T> & { payload: { ticks: number } }, settings: KeyScriptSettings, options: KeyRunOptions) {
+	const actionId = ev.action.id;
+	pendingTicks.set(actionId, (pendingTicks.get(actionId) ?? 0) + ev.payload.ticks);
+	if (!processTracker.isRunning(actionId)) {
+		runPendingTicks(ev, settings, options);
+	}
+}
+
+function runPendingTicks<T extends PayloadObject<T>>(ev: KeyEventSource<T>, settings: KeyScriptSettings, options: KeyRunOptions) {
+	const ticks = pendingTicks.get(ev.action.id);
+	if (!ticks) {
+		return;
+	}
+	pendingTicks.delete(ev.action.id);
+	runScriptOnKey(ev, settings, {
+		...options,
+		trigger: "dialRotate",
+		ticks,
+		onExit: result => {
+			options.onExit?.(result);
+			runPendingTicks(ev, settings, options);
+		}
+	});
+}
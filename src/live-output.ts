@@ -0,0 +1,78 @@
+/**
+ * How the output of a running script updates the key.
+ * - `whole`: the complete output so far, e.g. for titles spanning several lines
+ * - `lastLine`: every line on its own as it arrives, the last line wins
+ */
+export type OutputMode = "whole" | "lastLine";
+
+export type LiveOutputSettings = {
+	outputMode?: OutputMode;
+};
+
+/**
+ * Recognizes progress lines like `progress: 42%` or `progress: 0.5 %` and returns the percentage, between 0 and 100.
+ */
+export function parseProgressLine(line: string): number | undefined {
+	const match = line.trim().match(/^progress:\s*(\d+(?:[.,]\d+)?)\s*%?$/i);
+	if (!match) {
+		return undefined;
+	}
+	return Math.min(100, Number(match[1].replace(",", ".")));
+}
+
+/**
+ * Turns the stdout lines of a run into updates of the key, in the order the script printed them.
+ * Progress lines are no output, they go to `showProgress` instead.
+ */
+export class LiveOutput {
+	private lines: string[] = [];
+	private progressShown = false;
+
+	/**
+	 * @param mode How lines are applied, see {@link OutputMode}.
+	 * @param show Shows output on the key.
+	 * @param showProgress Shows a progress line on the key.
+	 * @param clearProgress Removes the progress from the key once output follows it, or the run ended.
+	 */
+	constructor(
+		private readonly mode: OutputMode,
+		private readonly show: (output: string) => void,
+		private readonly showProgress: (percent: number) => void,
+		private readonly clearProgress: () => void
+	) {}
+
+	/**
+	 * Applies the next stdout line.
+	 */
+	push(line: string) {
+		const progress = parseProgressLine(line);
+		if (progress !== undefined) {
+			this.progressShown = true;
+			this.showProgress(progress);
+			return;
+		}
+
+		if (this.mode === "whole") {
+			this.lines.push(line);
+		}
+		// empty lines change nothing on the key
+		if (!line.trim()) {
+			return;
+		}
+		const output = this.mode === "whole" ? this.lines.join("\n").trim() : line.trim();
+		this.end();
+		this.show(output);
+	}
+
+	/**
+	 * Removes a progress that is still shown. Returns whether there was one.
+	 */
+	end(): boolean {
+		if (!this.progressShown) {
+			return false;
+		}
+		this.progressShown = false;
+		this.clearProgress();
+		return true;
+	}
+}
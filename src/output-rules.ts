@@ -0,0 +1,155 @@
+import streamDeck, { Action, PayloadObject } from "@elgato/streamdeck";
+import { renderColoredTitle } from "./render/svg";
+
+/**
+ * How an {@link OutputRule} compares the script output.
+ * - `exact`: the output equals `value`
+ * - `regex`: the output matches the regular expression in `value`
+ * - `greater` / `less`: the first number in the output is greater / less than `value`
+ * - `between`: the first number in the output is within `min` and `max` (inclusive)
+ * - `default`: always matches, use it as the last rule
+ */
+export type OutputRuleMatch = "exact" | "regex" | "greater" | "less" | "between" | "default";
+
+/**
+ * A single output → key appearance rule. Rules are evaluated in order, the first matching rule wins.
+ */
+export type OutputRule = {
+	match: OutputRuleMatch;
+	value?: string;
+	min?: number | string;
+	max?: number | string;
+	image?: string;
+	/**
+	 * Title template, `{value}` is replaced with the script output.
+	 */
+	title?: string;
+	titleColor?: string;
+	/**
+	 * Background color of keys that draw their output as a value image.
+	 */
+	background?: string;
+};
+
+/**
+ * The two fixed value/image pairs the settings had before {@link OutputRule}s existed.
+ */
+export type LegacyOutputSettings = {
+	value1?: string;
+	image1?: string;
+	value2?: string;
+	image2?: string;
+};
+
+type RuleSettings = LegacyOutputSettings & {
+	rules?: OutputRule[];
+	displayValues?: boolean;
+};
+
+/**
+ * Moves the legacy `value1/image1` and `value2/image2` pairs into the rule list.
+ * Returns the migrated settings, or `undefined` when there was nothing to migrate.
+ */
+export function migrateOutputRules<T extends RuleSettings>(settings: T): T | undefined {
+	const legacyPairs = [
+		{ value: settings.value1, image: settings.image1 },
+		{ value: settings.value2, image: settings.image2 }
+	];
+	if (legacyPairs.every(pair => pair.value === undefined && pair.image === undefined)) {
+		return undefined;
+	}
+
+	const rules: OutputRule[] = [...(settings.rules ?? [])];
+	for (const pair of legacyPairs) {
+		if (pair.image) {
+			rules.push({ match: "exact", value: pair.value ?? "", image: pair.image });
+		}
+	}
+	const { value1, image1, value2, image2, ...migrated } = settings;
+	streamDeck.logger.info(`migrated ${rules.length - (settings.rules?.length ?? 0)} legacy value/image pairs to output rules`);
+	return { ...migrated, rules } as T;
+}
+
+/**
+ * Returns the first rule of the list that matches the output.
+ */
+export function findMatchingRule(rules: OutputRule[] | undefined, output: string): OutputRule | undefined {
+	return rules?.find(rule => matchesRule(rule, output));
+}
+
+/**
+ * Updates the key for plain text output: the matching rule decides the image and title,
+ * without a match the key falls back to `defaultImage` and, if enabled, the raw output as title.
+ */
+export async function applyOutputRules<T extends PayloadObject<T>>(action: Action<T>, settings: RuleSettings, output: string, defaultImage: string): Promise<void> {
+	const rule = findMatchingRule(settings.rules, output);
+	let title: string | undefined;
+	if (rule?.title) {
+		title = rule.title.replace(/\{value\}/g, output);
+	} else if (settings.displayValues) {
+		title = output;
+	}
+
+	const image = rule?.image || defaultImage;
+	if (rule?.titleColor && title !== undefined) {
+		// Stream Deck has no API for the title color, so the title is drawn into the image instead.
+		await action.setTitle("");
+		await action.setImage(renderColoredTitle(title, rule.titleColor, image));
+		return;
+	}
+
+	if (title !== undefined) {
+		await action.setTitle(title);
+	}
+	await action.setImage(image);
+}
+
+function matchesRule(rule: OutputRule, output: string): boolean {
+	switch (rule.match) {
+		case "exact":
+			return output === (rule.value ?? "");
+		case "regex":
+			try {
+				return new RegExp(rule.value ?? "").test(output);
+			} catch (error) {
+				streamDeck.logger.warn(`invalid regular expression in output rule: ${rule.value}`);
+				return false;
+			}
+		case "greater":
+		case "less":
+		case "between":
+			return matchesNumericRule(rule, output);
+		case "default":
+			return true;
+		default:
+			return false;
+	}
+}
+
+function matchesNumericRule(rule: OutputRule, output: string): boolean {
+	const value = parseNumber(output);
+	if (value === undefined) {
+		return false;
+	}
+	if (rule.match === "between") {
+		const min = parseNumber(rule.min);
+		const max = parseNumber(rule.max);
+		return (min === undefined || value >= min) && (max === undefined || value <= max);
+	}
+	const threshold = parseNumber(rule.value);
+	if (threshold === undefined) {
+		return false;
+	}
+	return rule.match === "greater" ? value > threshold : value < threshold;
+}
+
+/**
+ * Reads the first number of a value, so outputs like "CPU 85%" can be compared numerically.
+ */
+export function parseNumber(value: number | string | undefined): number | undefined {
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? value : undefined;
+	}
+	const match = value?.match(/-?\d+(?:[.,]\d+)?/);
+	return match ? Number(match[0].replace(",", ".")) : undefined;
+}
@@ -1,18 +1,35 @@
 import streamDeck, { LogLevel } from "@elgato/streamdeck";
 
+import { PythonBrowser } from "./actions/python-browser";
 import { PythonScript } from "./actions/python-script";
+import { PythonSequence } from "./actions/python-sequence";
 import { PythonService } from "./actions/python-service";
+import { PythonToggle } from "./actions/python-toggle";
+import { loadGlobalSettings, onGlobalSettings } from "./global-settings";
+import { keyBridge } from "./key-bridge";
 import { pyBGService } from "./python-bg-service";
+import { setRunnerLogger } from "./runner/logger";
+import { scriptTriggers } from "./triggers";
 
 // Configure logging level - use INFO for production, TRACE for debugging
 const logLevel = process.env.STREAMDECK_LOG_LEVEL === "trace" ? LogLevel.TRACE : LogLevel.INFO;
 streamDeck.logger.setLevel(logLevel);
+setRunnerLogger(streamDeck.logger);
 
 // Register the increment action.
 streamDeck.actions.registerAction(new PythonScript());
 streamDeck.actions.registerAction(new PythonService());
+streamDeck.actions.registerAction(new PythonSequence());
+streamDeck.actions.registerAction(new PythonToggle());
+streamDeck.actions.registerAction(new PythonBrowser());
+
+// Keys can run their script when the device they are on connects.
+streamDeck.devices.onDeviceDidConnect(ev => scriptTriggers.deviceConnected(ev.device.id));
+
+// The bridge follows the global settings, which are requested once connected.
+onGlobalSettings(settings => keyBridge.configure(settings));
 
 // Finally, connect to the Stream Deck.
-streamDeck.connect();
+streamDeck.connect().then(() => loadGlobalSettings());
 
 
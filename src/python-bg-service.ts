@@ -1,28 +1,16 @@
-import streamDeck, { DidReceiveSettingsEvent, KeyDownEvent, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
+import streamDeck, { DialDownEvent, DialRotateEvent, DidReceiveSettingsEvent, KeyDownEvent, TouchTapEvent, WillAppearEvent, WillDisappearEvent } from "@elgato/streamdeck";
+import { ChildProcess } from "child_process";
 import { PythonServiceSettings } from "./actions/python-service";
-import { ChildProcess, spawn } from "child_process";
-import * as os from "os";
-import * as path from "node:path";
-import * as fs from "fs";
-
-const pythonErrorMap: { [key: string]: string } = {
-	"SyntaxError": "Python\nSyntax\nError",
-	"NameError": "Python\nName\nError",
-	"TypeError": "Python\nType\nError",
-	"ValueError": "Python\nValue\nError",
-	"ZeroDivisionError": "Python\nZeroDiv\nError",
-	"IndexError": "Python\nIndex\nError",
-	"KeyError": "Python\nKey\nError",
-	"AttributeError": "Python\nAttribute\nError",
-	"ImportError": "Python\nImport\nError",
-	"No such file or directory": "Python\nFile\nError",
-	"ModuleNotFoundError": "Python\nModule\nError",
-	"RuntimeError": "Python\nRuntime\nError",
-	"MemoryError": "Python\nMemory\nError",
-	"OverflowError": "Python\nOverflow\nError",
-	"SystemError": "Python\nSystem\nError",
-	"Microsoft Store": "Python\nnot found\nError"
-};
+import { withGlobalDefaults } from "./global-settings";
+import { getScriptContext, recordRun, reportBlockedRun, reportScriptFailure, runScriptOnDialRotate, runScriptOnKey, serviceImages, showScriptOutput, showScriptProgress } from "./key-runner";
+import { LiveOutput } from "./live-output";
+import { processTracker, terminateProcess } from "./runner/process-tracker";
+import { PythonRun, RunResult } from "./runner/python-run";
+import { maxOutputLength } from "./runner/run-history";
+import { getIntervalSeconds, getJitterMs, getNextRunTime, isActiveAt } from "./runner/schedule";
+import { buildScriptInvocation } from "./runner/script-environment";
+import { createScriptApi } from "./script-api";
+import { scriptTrust } from "./script-trust";
 
 export enum ServiceState {
 	running,
@@ -31,10 +19,41 @@ export enum ServiceState {
 
 type TrackedAction = {
 	id: string;
-	ev: WillAppearEvent<PythonServiceSettings> | DidReceiveSettingsEvent<PythonServiceSettings>;
+	ev: ServiceEvent;
+	state: ServiceState;
 	timerId?: NodeJS.Timeout;
+	worker?: ChildProcess;
+	restartTimerId?: NodeJS.Timeout;
+	restartAttempts: number;
 };
 
+/**
+ * A key press or dial press that starts or stops a service.
+ */
+type ServiceToggleEvent = KeyDownEvent<PythonServiceSettings> | DialDownEvent<PythonServiceSettings>;
+
+type ServiceEvent = WillAppearEvent<PythonServiceSettings> | DidReceiveSettingsEvent<PythonServiceSettings> | ServiceToggleEvent | TouchTapEvent<PythonServiceSettings>;
+
+/**
+ * Delays between restarts of a crashed persistent worker, the last value is used for all further attempts.
+ */
+const workerRestartDelays = [1, 2, 5, 10, 30, 60];
+
+/**
+ * A worker that kept running for this long is considered healthy again and the backoff starts over.
+ */
+const workerHealthySeconds = 30;
+
+/**
+ * Longest delay `setTimeout` supports, about 24.8 days.
+ */
+const maxTimerDelayMs = 2 ** 31 - 1;
+
+/**
+ * A service without upcoming run, e.g. because of an invalid cron expression, looks again after this long.
+ */
+const scheduleRetryMs = 60 * 60 * 1000;
+
 type NormalizedSettings = PythonServiceSettings & {
 	interval: number;
 	displayValues: boolean;
@@ -43,184 +62,333 @@ type NormalizedSettings = PythonServiceSettings & {
 
 class PythonBackgroundService {
 	private trackedActions: TrackedAction[] = [];
-	private state: ServiceState = ServiceState.stopped;
 
 	registerAction(ev: WillAppearEvent<PythonServiceSettings> | DidReceiveSettingsEvent<PythonServiceSettings>) {
 		streamDeck.logger.info("checking if action is already tracked");
 		const existingIndex = this.trackedActions.findIndex(action => action.id === ev.action.id);
 		if (existingIndex >= 0) {
 			const existing = this.trackedActions[existingIndex];
-			if (existing.timerId) {
-				clearInterval(existing.timerId);
+			this.stopTracked(existing);
+			existing.ev = ev;
+			if (existing.state === ServiceState.running && !this.isMaster(existing)) {
+				this.startTracked(existing);
 			}
-			const updatedAction: TrackedAction = { ...existing, ev };
-			if (this.state === ServiceState.running) {
-				updatedAction.timerId = this.createTimer(ev);
-			}
-			this.trackedActions[existingIndex] = updatedAction;
 			streamDeck.logger.info("action already tracked - settings updated");
+			this.updateMasterKeys();
 			return;
 		}
 
-		this.trackedActions.push({ id: ev.action.id, ev });
+		const tracked: TrackedAction = { id: ev.action.id, ev, state: ServiceState.stopped, restartAttempts: 0 };
+		this.trackedActions.push(tracked);
+		if (this.isMaster(tracked)) {
+			this.updateMasterKeys();
+		} else {
+			ev.action.setState(ServiceState.stopped);
+		}
 	}
 
 	unregisterAction(ev: WillDisappearEvent<PythonServiceSettings>) {
 		const index = this.trackedActions.findIndex(action => action.id === ev.action.id);
 		if (index >= 0) {
 			const tracked = this.trackedActions[index];
-			if (tracked.timerId) {
-				streamDeck.logger.info(`stopping execution of the action ${ev.action.manifestId}, id: ${ev.action.id}`);
-				clearInterval(tracked.timerId);
-			}
+			streamDeck.logger.info(`stopping execution of the action ${ev.action.manifestId}, id: ${ev.action.id}`);
+			this.stopTracked(tracked);
 			this.trackedActions.splice(index, 1);
+			this.updateMasterKeys();
 		}
 	}
 
-	start(ev: KeyDownEvent<PythonServiceSettings>) {
-		streamDeck.logger.info("starting Background Service");
-		this.trackedActions.forEach(tracked => {
-			if (tracked.timerId) {
-				clearInterval(tracked.timerId);
-			}
-			tracked.timerId = this.createTimer(tracked.ev);
-		});
-		this.state = ServiceState.running;
-		ev.action.setImage("imgs/actions/pyServiceRunning.png");
+	/**
+	 * Starts the service of the pressed key only.
+	 */
+	start(ev: ServiceToggleEvent) {
+		streamDeck.logger.info(`starting service of action ${ev.action.manifestId}, id: ${ev.action.id}`);
+		const tracked = this.getTracked(ev);
+		this.setTrackedState(tracked, ServiceState.running);
+		this.updateMasterKeys();
 	}
 
-	stop(ev: KeyDownEvent<PythonServiceSettings>) {
-		streamDeck.logger.info("stopping Background Service");
-		this.trackedActions.forEach(tracked => {
-			if (tracked.timerId) {
-				clearInterval(tracked.timerId);
-				tracked.timerId = undefined;
-			}
-		});
-		this.state = ServiceState.stopped;
+	/**
+	 * Stops the service of the pressed key only.
+	 */
+	stop(ev: ServiceToggleEvent) {
 		streamDeck.logger.info(`stopping execution of the action ${ev.action.manifestId}, id: ${ev.action.id}`);
-		ev.action.setImage("imgs/actions/pyServiceStopped.png");
+		const tracked = this.getTracked(ev);
+		this.setTrackedState(tracked, ServiceState.stopped);
+		this.updateMasterKeys();
 	}
 
-	getState = (): ServiceState => {
-		return this.state;
+	/**
+	 * Used by master keys: stops every service when at least one is running, otherwise starts all of them.
+	 */
+	toggleAll(ev: ServiceToggleEvent) {
+		const services = this.trackedActions.filter(tracked => !this.isMaster(tracked));
+		const state = this.getMasterState() === ServiceState.running ? ServiceState.stopped : ServiceState.running;
+		streamDeck.logger.info(`master key ${ev.action.id} ${state === ServiceState.running ? "starting" : "stopping"} ${services.length} services`);
+		services.forEach(tracked => this.setTrackedState(tracked, state));
+		this.updateMasterKeys();
+	}
+
+	getState = (actionId: string): ServiceState => {
+		return this.trackedActions.find(tracked => tracked.id === actionId)?.state ?? ServiceState.stopped;
 	};
 
-	executeAction(ev: WillAppearEvent<PythonServiceSettings> | DidReceiveSettingsEvent<PythonServiceSettings> | KeyDownEvent<PythonServiceSettings>) {
-		const settings = this.normalizeSettings(ev.payload.settings);
-		const scriptPath = settings.path;
-		let pythonProcess: ChildProcess | undefined;
-		if (scriptPath) {
-			streamDeck.logger.debug(`path to script is: ${scriptPath}`);
-			pythonProcess = this.createChildProcess(settings.useVenv, settings.venvPath, scriptPath);
-
-			if (pythonProcess && pythonProcess.stdout) {
-				streamDeck.logger.debug("start reading output");
-				pythonProcess.stdout.on("data", (data: { toString: () => string }) => {
-					const output = data.toString().trim();
-					streamDeck.logger.info(`stdout: ${output}`);
-					if (settings.displayValues) {
-						ev.action.setTitle(output);
-					}
-					if (settings.image1 && output === (settings.value1 ?? "")) {
-						ev.action.setImage(settings.image1);
-					} else if (settings.image2 && output === (settings.value2 ?? "")) {
-						ev.action.setImage(settings.image2);
-					} else {
-						ev.action.setImage("imgs/actions/pyServiceIcon.png");
-					}
-				});
-
-				pythonProcess.stderr?.on("data", (data: { toString: () => string }) => {
-					const errorString = data.toString().trim().replace(/(?:\r\n|\r|\n)/g, " ");
-					streamDeck.logger.error(`stderr: ${errorString}`);
-					ev.action.setImage("imgs/actions/pyServiceIconFail.png");
-					let errorTitle = "python\nother\nissue";
-					for (const key in pythonErrorMap) {
-						if (errorString.includes(key)) {
-							errorTitle = pythonErrorMap[key];
-							break;
-						}
-					}
-					if (errorTitle === "python\nother\nissue") {
-						streamDeck.logger.error(errorString);
-					}
-					ev.action.setTitle(errorTitle);
-					ev.action.showAlert();
-				});
-
-				pythonProcess.on("close", (code: number | null) => {
-					streamDeck.logger.debug(`child process exited with code ${code}`);
-				});
-			}
+	/**
+	 * Master keys show "running" as long as at least one service is running.
+	 */
+	getMasterState = (): ServiceState => {
+		const anyRunning = this.trackedActions.some(tracked => !this.isMaster(tracked) && tracked.state === ServiceState.running);
+		return anyRunning ? ServiceState.running : ServiceState.stopped;
+	};
+
+	private getTracked(ev: ServiceToggleEvent): TrackedAction {
+		let tracked = this.trackedActions.find(action => action.id === ev.action.id);
+		if (!tracked) {
+			tracked = { id: ev.action.id, ev, state: ServiceState.stopped, restartAttempts: 0 };
+			this.trackedActions.push(tracked);
+		}
+		tracked.ev = ev;
+		return tracked;
+	}
+
+	private isMaster(tracked: TrackedAction): boolean {
+		return Boolean(tracked.ev.payload.settings.master);
+	}
+
+	private setTrackedState(tracked: TrackedAction, state: ServiceState) {
+		this.stopTracked(tracked);
+		tracked.state = state;
+		if (state === ServiceState.running) {
+			this.startTracked(tracked, true);
+			tracked.ev.action.setImage("imgs/actions/pyServiceRunning.png");
+		} else {
+			tracked.ev.action.setImage("imgs/actions/pyServiceStopped.png");
+		}
+		tracked.ev.action.setState(state);
+		if (tracked.ev.payload.controller === "Encoder") {
+			tracked.ev.action.setFeedback({ value: state === ServiceState.running ? "running" : "stopped", indicator: { opacity: 0 } });
+		}
+	}
+
+	private updateMasterKeys() {
+		const state = this.getMasterState();
+		this.trackedActions.filter(tracked => this.isMaster(tracked)).forEach(master => {
+			master.state = state;
+			master.ev.action.setState(state);
+			master.ev.action.setImage(state === ServiceState.running ? "imgs/actions/pyServiceRunning.png" : "imgs/actions/pyServiceStopped.png");
+		});
+	}
+
+	/**
+	 * Starts the tracked action either on its interval or cron schedule or as a persistent worker, depending on its mode.
+	 * `started` is set when the user started the service, as opposed to a restart after a settings change.
+	 */
+	private startTracked(tracked: TrackedAction, started = false) {
+		const settings = this.normalizeSettings(tracked.ev.payload.settings);
+		if (settings.mode === "persistent") {
+			tracked.restartAttempts = 0;
+			this.startWorker(tracked);
+			return;
+		}
+		if (started && settings.runOnStart && isActiveAt(settings, new Date())) {
+			this.executeAction(tracked.ev, "start");
 		}
+		this.scheduleNextRun(tracked, new Date());
 	}
 
-	createChildProcess(useVenv: boolean, venvPath: string | undefined, scriptPath: string) {
-		let pythonProcess: ChildProcess | undefined;
-		const isWindows = os.platform() === "win32";
-		const normalizedScriptPath = isWindows ? path.win32.normalize(scriptPath) : scriptPath;
+	/**
+	 * Clears the timer and kills the persistent worker of the tracked action.
+	 */
+	private stopTracked(tracked: TrackedAction) {
+		if (tracked.timerId) {
+			clearTimeout(tracked.timerId);
+			tracked.timerId = undefined;
+		}
+		if (tracked.restartTimerId) {
+			clearTimeout(tracked.restartTimerId);
+			tracked.restartTimerId = undefined;
+		}
+		processTracker.abort(tracked.id);
+		if (tracked.worker) {
+			const worker = tracked.worker;
+			tracked.worker = undefined;
+			streamDeck.logger.info(`killing persistent worker of action ${tracked.id}`);
+			terminateProcess(worker);
+		}
+	}
 
-		if (useVenv && venvPath) {
-			const normalizedVenvPath = this.normalizeVenvPath(venvPath);
-			streamDeck.logger.info(`Using virtual environment at: ${normalizedVenvPath}`);
+	/**
+	 * Starts the script once and keeps it running. Every line the script prints updates the key,
+	 * if the process exits unexpectedly it is restarted with an increasing delay.
+	 */
+	private startWorker(tracked: TrackedAction) {
+		const ev = tracked.ev;
+		const settings = withGlobalDefaults(this.normalizeSettings(ev.payload.settings));
+		if (!settings.path) {
+			return;
+		}
+		const trustProblem = scriptTrust.check(ev.action.id, ev.payload.settings, settings.path, settings);
+		if (trustProblem) {
+			reportBlockedRun(ev.action, settings.path, trustProblem, serviceImages, ev.payload.controller);
+			return;
+		}
 
-			if (isWindows) {
-				const pythonExecutable = path.join(normalizedVenvPath, "Scripts", "python.exe");
-				pythonProcess = spawn(pythonExecutable, [normalizedScriptPath], { windowsHide: true });
-			} else {
-				const pythonExecutable = path.join(normalizedVenvPath, "bin", "python3");
-				pythonProcess = spawn(pythonExecutable, [normalizedScriptPath]);
+		streamDeck.logger.info(`starting persistent worker for action ${ev.action.manifestId}, id: ${ev.action.id}`);
+		const startedAt = Date.now();
+		const run = new PythonRun({
+			...settings,
+			scriptPath: settings.path,
+			invocation: buildScriptInvocation(settings, settings.path, getScriptContext(ev, settings.id)),
+			// otherwise lines only arrive when the output buffer of python is full
+			unbuffered: true,
+			// the history keeps no more of it anyway
+			maxOutputLength,
+			rpcHandlers: createScriptApi(ev.action, ev.payload.settings)
+		});
+		const liveOutput = new LiveOutput("lastLine", output => {
+			streamDeck.logger.info(`worker stdout: ${output}`);
+			showScriptOutput(ev.action, settings, output, serviceImages, ev.payload.controller);
+		}, percent => showScriptProgress(ev.action, percent, ev.payload.controller), () => {
+			if (ev.payload.controller !== "Encoder") {
+				ev.action.setImage(serviceImages.idle);
 			}
-		} else {
-			if (isWindows) {
-				pythonProcess = spawn("python", [normalizedScriptPath], { windowsHide: true });
-			} else {
-				pythonProcess = spawn("python3", [normalizedScriptPath]);
+		});
+		run.on("line", (line: string) => liveOutput.push(line));
+		run.on("stderr", (chunk: string) => streamDeck.logger.warn(`worker stderr: ${chunk.trim()}`));
+		run.on("exit", (result: RunResult) => {
+			recordRun(ev.action, run.request.scriptPath, "persistent", result);
+			if (tracked.worker !== worker) {
+				// stopped on purpose or replaced by a newer worker
+				return;
 			}
+			reportScriptFailure(ev.action, run.request.scriptPath, result, serviceImages, ev.payload.controller);
+			tracked.worker = undefined;
+			if ((Date.now() - startedAt) / 1000 >= workerHealthySeconds) {
+				tracked.restartAttempts = 0;
+			}
+			const delay = workerRestartDelays[Math.min(tracked.restartAttempts, workerRestartDelays.length - 1)];
+			tracked.restartAttempts++;
+			streamDeck.logger.warn(`persistent worker of action ${tracked.id} exited with code ${result.exitCode}, restarting in ${delay}s`);
+			tracked.restartTimerId = setTimeout(() => {
+				tracked.restartTimerId = undefined;
+				this.startWorker(tracked);
+			}, delay * 1000);
+		});
+
+		const worker = run.start();
+		tracked.worker = worker;
+	}
+
+	/**
+	 * Whether the key currently has a script run or a persistent worker alive.
+	 */
+	isBusy(actionId: string): boolean {
+		return processTracker.isRunning(actionId) || Boolean(this.trackedActions.find(tracked => tracked.id === actionId)?.worker);
+	}
+
+	/**
+	 * Kills the current script run of the key. A persistent worker is killed as well and restarts like after a crash.
+	 */
+	abort(actionId: string): boolean {
+		if (processTracker.abort(actionId)) {
+			return true;
+		}
+		const worker = this.trackedActions.find(tracked => tracked.id === actionId)?.worker;
+		if (worker) {
+			streamDeck.logger.info(`aborting persistent worker of action ${actionId}`);
+			terminateProcess(worker);
+			return true;
 		}
+		return false;
+	}
+
+	/**
+	 * Restarts the persistent worker of a started service, with a fresh backoff. Returns `false` when the service is stopped
+	 * or not in persistent mode.
+	 */
+	restartWorker(actionId: string): boolean {
+		const tracked = this.trackedActions.find(tracked => tracked.id === actionId);
+		if (!tracked || tracked.state !== ServiceState.running || tracked.ev.payload.settings.mode !== "persistent") {
+			return false;
+		}
+		streamDeck.logger.info(`restarting persistent worker of action ${actionId}`);
+		this.stopTracked(tracked);
+		this.startTracked(tracked);
+		return true;
+	}
 
-		pythonProcess?.on("error", (error: Error) => {
-			streamDeck.logger.error(`Failed to start python process: ${error.message}`);
+	/**
+	 * Runs the script of the service once, `trigger` is passed to the script as `STREAMDECK_TRIGGER`.
+	 */
+	executeAction(ev: ServiceEvent, trigger = "interval", changedPath?: string) {
+		const settings = this.normalizeSettings(ev.payload.settings);
+		runScriptOnKey(ev, settings, {
+			images: serviceImages,
+			showRunning: settings.showRunning === true,
+			keyName: settings.id,
+			trigger,
+			changedPath
 		});
+	}
 
-		return pythonProcess;
+	/**
+	 * Runs the script of the service with the rotation of its dial, independent of the service being started.
+	 */
+	rotate(ev: DialRotateEvent<PythonServiceSettings>) {
+		const settings = this.normalizeSettings(ev.payload.settings);
+		runScriptOnDialRotate(ev, settings, {
+			images: serviceImages,
+			showRunning: settings.showRunning === true,
+			keyName: settings.id
+		});
 	}
 
 	/**
-	 * Normalizes the virtual environment path.
-	 * If the path points to a pyvenv.cfg file, returns its parent directory.
-	 * Otherwise, returns the path as-is.
+	 * Schedules the next run of an interval or cron service after `after`. Each run schedules the one after it
+	 * from its planned time, so neither the run time nor the jitter makes the schedule drift. Runs missed while the machine slept
+	 * are not replayed, the schedule continues from now after one catch-up run.
 	 */
-	normalizeVenvPath(venvPath: string): string {
+	private scheduleNextRun(tracked: TrackedAction, after: Date) {
+		const ev = tracked.ev;
+		const settings = this.normalizeSettings(ev.payload.settings);
+		const mode = settings.mode === "cron" ? "cron" : "interval";
+		let next: Date | undefined;
 		try {
-			// Check if the path points to a file (likely pyvenv.cfg)
-			if (fs.existsSync(venvPath) && fs.statSync(venvPath).isFile()) {
-				// Return the parent directory
-				return path.dirname(venvPath);
-			}
+			next = getNextRunTime(settings, mode, after);
 		} catch (error) {
-			streamDeck.logger.warn(`Could not check venv path: ${error}`);
+			streamDeck.logger.error(`invalid cron expression "${settings.cron}" for action ${tracked.id}: ${error}`);
+			ev.action.showAlert();
+		}
+		if (!next) {
+			// the service keeps a timer, so it picks up again without a restart of the plugin
+			streamDeck.logger.warn(`no upcoming run found for action ${tracked.id}, looking again in ${scheduleRetryMs / 60000} minutes`);
+			tracked.timerId = setTimeout(() => this.scheduleNextRun(tracked, new Date()), scheduleRetryMs);
+			return;
 		}
-		// If it's already a directory or doesn't exist yet, return as-is
-		return venvPath;
-	}
 
-	createTimer(ev: WillAppearEvent<PythonServiceSettings> | DidReceiveSettingsEvent<PythonServiceSettings> | KeyDownEvent<PythonServiceSettings>) {
-		const settings = this.normalizeSettings(ev.payload.settings);
-		const intervalSeconds = settings.interval;
-		return setInterval(() => {
-			streamDeck.logger.info(`timer triggered after ${intervalSeconds}s for action ${ev.action.manifestId}, id: ${ev.action.id}`);
-			this.executeAction(ev);
-		}, intervalSeconds * 1000);
+		if (next.getTime() < Date.now()) {
+			// slots missed while the machine slept or the plugin was stalled are skipped, the run that just fired caught up for them
+			next = getNextRunTime(settings, mode, new Date()) ?? next;
+		}
+
+		const runAt = next;
+		const delay = runAt.getTime() - Date.now() + getJitterMs(settings);
+		if (delay > maxTimerDelayMs) {
+			// setTimeout can't wait that long, check again later
+			tracked.timerId = setTimeout(() => this.scheduleNextRun(tracked, after), maxTimerDelayMs);
+			return;
+		}
+		tracked.timerId = setTimeout(() => {
+			streamDeck.logger.info(`scheduled run (${mode}) of action ${ev.action.manifestId}, id: ${ev.action.id}`);
+			this.executeAction(ev, mode);
+			this.scheduleNextRun(tracked, runAt);
+		}, Math.max(0, delay));
 	}
 
 	private normalizeSettings(settings: PythonServiceSettings): NormalizedSettings {
-		const intervalRaw = typeof settings.interval === "string" ? Number(settings.interval) : settings.interval;
-		const interval = Number.isFinite(intervalRaw) && intervalRaw !== undefined && intervalRaw > 0 ? intervalRaw : 10;
 		return {
 			...settings,
-			interval,
+			interval: getIntervalSeconds(settings.interval),
 			displayValues: Boolean(settings.displayValues),
 			useVenv: Boolean(settings.useVenv)
 		};
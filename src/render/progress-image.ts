@@ -0,0 +1,18 @@
+import { escapeXml, keyImageSize, toSvgDataUri } from "./svg";
+
+const background = "#1e1e1e";
+const fill = "#3776ab";
+
+/**
+ * Renders the progress of a running script as SVG data URI: the key fills up from the bottom, with the percentage on top.
+ */
+export function renderProgressImage(percent: number): string {
+	const size = keyImageSize;
+	const height = Math.round((Math.min(100, Math.max(0, percent)) / 100) * size);
+	const text = `${Math.round(percent)}%`;
+	return toSvgDataUri(`<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">`
+		+ `<rect width="${size}" height="${size}" fill="${background}"/>`
+		+ `<rect y="${size - height}" width="${size}" height="${height}" fill="${fill}"/>`
+		+ `<text x="72" y="86" text-anchor="middle" font-family="Arial, sans-serif" font-size="40" font-weight="bold" fill="#ffffff">${escapeXml(text)}</text>`
+		+ "</svg>");
+}
@@ -0,0 +1,58 @@
+import streamDeck from "@elgato/streamdeck";
+import * as fs from "fs";
+import * as path from "node:path";
+
+/**
+ * Width and height of the key images the plugin renders.
+ */
+export const keyImageSize = 144;
+
+/**
+ * Wraps SVG markup into a data URI that `setImage` accepts.
+ */
+export function toSvgDataUri(svg: string): string {
+	return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+/**
+ * Checks whether the script output is an image data URI (`data:image/png;base64,...`, `data:image/svg+xml,...`) that can be shown as is.
+ */
+export function isImageDataUri(output: string): boolean {
+	return /^data:image\/(?:png|jpeg|gif|svg\+xml)[;,]/.test(output.trim());
+}
+
+/**
+ * Draws the title onto the background image, Stream Deck has no API for the title color.
+ */
+export function renderColoredTitle(title: string, color: string, backgroundImage: string): string {
+	const background = readImageAsDataUri(backgroundImage);
+	const lines = title.split(/\r?\n/);
+	const lineHeight = 18;
+	const firstLineY = keyImageSize - 12 - (lines.length - 1) * lineHeight;
+	const text = lines
+		.map((line, index) => `<text x="72" y="${firstLineY + index * lineHeight}" text-anchor="middle" font-family="Arial, sans-serif" font-size="16" font-weight="bold" fill="${escapeXml(color)}">${escapeXml(line)}</text>`)
+		.join("");
+	const image = background ? `<image href="${background}" width="${keyImageSize}" height="${keyImageSize}"/>` : "";
+	return toSvgDataUri(`<svg xmlns="http://www.w3.org/2000/svg" width="${keyImageSize}" height="${keyImageSize}">${image}${text}</svg>`);
+}
+
+/**
+ * Reads an image file into a data URI, so it can be embedded into a rendered SVG. Data URIs are returned as is.
+ */
+export function readImageAsDataUri(image: string): string | undefined {
+	if (image.startsWith("data:")) {
+		return image;
+	}
+	try {
+		const mimeTypes: { [key: string]: string } = { ".png": "image/png", ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".gif": "image/gif", ".svg": "image/svg+xml" };
+		const mimeType = mimeTypes[path.extname(image).toLowerCase()] ?? "image/png";
+		return `data:${mimeType};base64,${fs.readFileSync(path.resolve(image)).toString("base64")}`;
+	} catch (error) {
+		streamDeck.logger.warn(`could not read image ${image}: ${error}`);
+		return undefined;
+	}
+}
+
+export function escapeXml(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
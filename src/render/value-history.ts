@@ -0,0 +1,25 @@
+/**
+ * Keeps the last numeric outputs of each action for sparklines.
+ */
+class ValueHistory {
+	private values = new Map<string, number[]>();
+
+	/**
+	 * Appends the value and drops the oldest ones beyond `length`. Returns the values, oldest first.
+	 */
+	push(actionId: string, value: number, length: number): number[] {
+		const values = [...(this.values.get(actionId) ?? []), value].slice(-length);
+		this.values.set(actionId, values);
+		return values;
+	}
+
+	get(actionId: string): number[] {
+		return this.values.get(actionId) ?? [];
+	}
+
+	clear(actionId: string) {
+		this.values.delete(actionId);
+	}
+}
+
+export const valueHistory = new ValueHistory();
@@ -0,0 +1,112 @@
+import { Action, PayloadObject } from "@elgato/streamdeck";
+import { findMatchingRule, OutputRule, parseNumber } from "../output-rules";
+import { escapeXml, keyImageSize, toSvgDataUri } from "./svg";
+import { valueHistory } from "./value-history";
+
+/**
+ * Settings for drawing the output as a large value instead of a title.
+ */
+export type ValueImageSettings = {
+	renderValue?: boolean;
+	/**
+	 * Unit drawn after the value, e.g. `%` or `°C`.
+	 */
+	unit?: string;
+	/**
+	 * Draws the last values of the key as a sparkline beneath the value.
+	 */
+	sparkline?: boolean;
+	/**
+	 * Number of values in the sparkline, defaults to {@link defaultSparklineLength}.
+	 */
+	sparklineLength?: number | string;
+};
+
+/**
+ * Everything drawn on a value image.
+ */
+export type ValueImage = {
+	value: string;
+	unit?: string;
+	/**
+	 * Small text above the value.
+	 */
+	label?: string;
+	background?: string;
+	color?: string;
+	/**
+	 * Values for the sparkline, oldest first.
+	 */
+	history?: number[];
+};
+
+export const defaultSparklineLength = 20;
+
+const defaultBackground = "#1e1e1e";
+
+/**
+ * Draws the output on the key as a large value. The matching output rule picks the background color,
+ * the value color (its title color) and a label (its title); with sparklines enabled the numeric outputs are kept as history.
+ */
+export async function applyValueImage<T extends PayloadObject<T>>(action: Action<T>, settings: ValueImageSettings & { rules?: OutputRule[] }, output: string): Promise<void> {
+	const rule = findMatchingRule(settings.rules, output);
+	const number = parseNumber(output);
+	const history = settings.sparkline && number !== undefined ? valueHistory.push(action.id, number, getSparklineLength(settings)) : undefined;
+	await action.setTitle("");
+	await action.setImage(renderValueImage({
+		value: number !== undefined ? String(number) : output,
+		unit: settings.unit,
+		label: rule?.title?.replace(/\{value\}/g, output),
+		background: rule?.background,
+		color: rule?.titleColor,
+		history
+	}));
+}
+
+/**
+ * Renders a {@link ValueImage} as SVG data URI. The font shrinks with longer values so they fit the key.
+ */
+export function renderValueImage(image: ValueImage): string {
+	const size = keyImageSize;
+	const color = escapeXml(image.color || "#ffffff");
+	const unit = image.unit ?? "";
+	const length = image.value.length + unit.length / 2;
+	const fontSize = length <= 3 ? 60 : length <= 5 ? 46 : length <= 7 ? 34 : 24;
+	const hasSparkline = (image.history?.length ?? 0) > 1;
+	const valueY = hasSparkline ? 78 : 90;
+
+	const parts = [`<rect width="${size}" height="${size}" rx="16" fill="${escapeXml(image.background || defaultBackground)}"/>`];
+	if (image.label) {
+		parts.push(`<text x="72" y="28" text-anchor="middle" font-family="Arial, sans-serif" font-size="18" fill="${color}" opacity="0.8">${escapeXml(image.label)}</text>`);
+	}
+	const unitText = unit ? `<tspan font-size="${Math.round(fontSize * 0.45)}" dx="2">${escapeXml(unit)}</tspan>` : "";
+	parts.push(`<text x="72" y="${valueY}" text-anchor="middle" font-family="Arial, sans-serif" font-size="${fontSize}" font-weight="bold" fill="${color}">${escapeXml(image.value)}${unitText}</text>`);
+	if (hasSparkline) {
+		parts.push(`<polyline points="${getSparklinePoints(image.history ?? [])}" fill="none" stroke="${color}" stroke-width="3" stroke-linejoin="round" stroke-linecap="round" opacity="0.7"/>`);
+	}
+	return toSvgDataUri(`<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${parts.join("")}</svg>`);
+}
+
+function getSparklineLength(settings: ValueImageSettings): number {
+	const length = Number(settings.sparklineLength);
+	return Number.isInteger(length) && length > 1 ? length : defaultSparklineLength;
+}
+
+/**
+ * Spreads the values over the lower part of the key, scaled between their minimum and maximum.
+ */
+function getSparklinePoints(values: number[]): string {
+	const left = 14;
+	const width = keyImageSize - 2 * left;
+	const top = 96;
+	const height = 34;
+	const min = Math.min(...values);
+	const range = Math.max(...values) - min || 1;
+	return values
+		.map((value, index) => {
+			const x = left + (index / (values.length - 1)) * width;
+			const y = top + height - ((value - min) / range) * height;
+			return `${x.toFixed(1)},${y.toFixed(1)}`;
+		})
+		.join(" ");
+}
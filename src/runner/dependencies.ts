@@ -0,0 +1,269 @@
+import { execFile } from "child_process";
+import { createHash } from "node:crypto";
+import * as fs from "fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { getEnvironmentPython, InterpreterSettings, PythonCommand, resolvePythonCommand } from "./interpreter";
+import { logger } from "./logger";
+
+/**
+ * Settings of the dependency check that runs before the script.
+ */
+export type DependencySettings = {
+	/**
+	 * Checks the requirements of the script against the interpreter before it runs.
+	 */
+	checkDependencies?: boolean;
+	/**
+	 * Installs missing requirements: into the selected virtual environment, or into an environment the plugin creates for the requirements.
+	 */
+	installDependencies?: boolean;
+};
+
+/**
+ * The requirements a script declares, from a `requirements.txt` next to it or its PEP 723 inline metadata.
+ */
+export type Requirements = {
+	source: string;
+	packages: string[];
+};
+
+/**
+ * Outcome of {@link ensureDependencies}.
+ * - `ready`: everything is installed, `settings` select the interpreter to run the script with
+ * - `missing`: requirements are missing and installing is disabled or failed
+ */
+export type DependencyResult =
+	| { status: "ready"; settings?: InterpreterSettings }
+	| { status: "missing"; missing: string[]; message: string };
+
+/**
+ * Environments created for scripts whose interpreter is no virtual environment, one per set of requirements.
+ */
+const environmentsFolder = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "envs");
+
+/**
+ * Written into an environment once all its requirements are installed.
+ */
+const completeMarker = ".requirements-installed";
+
+const checkTimeoutSeconds = 30;
+const installTimeoutSeconds = 600;
+
+/**
+ * Lists the requirements that are not installed, and whether the interpreter is a virtual environment.
+ * Version specifiers and markers are checked when `packaging` is available, otherwise only the package names.
+ */
+const checkScript = `
+import json, re, sys
+from importlib import metadata
+try:
+    from packaging.requirements import Requirement
+except ImportError:
+    Requirement = None
+missing = []
+for line in json.loads(sys.argv[1]):
+    try:
+        if Requirement:
+            requirement = Requirement(line)
+            if requirement.marker and not requirement.marker.evaluate():
+                continue
+            version = metadata.version(requirement.name)
+            if requirement.specifier and not requirement.specifier.contains(version, prereleases=True):
+                missing.append(line)
+        else:
+            metadata.version(re.match(r"[A-Za-z0-9][A-Za-z0-9._-]*", line).group(0))
+    except Exception:
+        missing.append(line)
+print(json.dumps({"missing": missing, "venv": sys.prefix != sys.base_prefix}))
+`;
+
+/**
+ * Checks that passed, keyed by interpreter and requirements, so later runs skip the check. The value is the environment
+ * the plugin created for the requirements, if they are installed there instead of for the interpreter itself.
+ */
+const checkedEnvironments = new Map<string, InterpreterSettings | undefined>();
+
+/**
+ * Environments being created, keyed by their folder name. Keys with the same requirements wait for the same environment.
+ */
+const preparingEnvironments = new Map<string, Promise<DependencyResult>>();
+
+/**
+ * Reads the requirements of the script. PEP 723 inline metadata takes precedence over a `requirements.txt` next to the script.
+ * Returns `undefined` when the script declares none.
+ */
+export function findRequirements(scriptPath: string): Requirements | undefined {
+	try {
+		const inline = parseInlineDependencies(fs.readFileSync(scriptPath, "utf-8"));
+		if (inline) {
+			return { source: "inline script metadata", packages: inline };
+		}
+	} catch {
+		// the run reports a missing script
+	}
+	const requirementsFile = path.join(path.dirname(scriptPath), "requirements.txt");
+	try {
+		const packages = parseRequirementsFile(fs.readFileSync(requirementsFile, "utf-8"));
+		return packages.length > 0 ? { source: requirementsFile, packages } : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Makes sure the requirements of the script are installed for the interpreter of the settings. Without `install` missing requirements
+ * are only reported. With it they are installed into the selected virtual environment, for other interpreters into an environment
+ * the plugin creates from the selected interpreter and reuses for scripts with the same requirements.
+ * `onProgress` receives short status texts for the key.
+ */
+export async function ensureDependencies(settings: InterpreterSettings, scriptPath: string, install: boolean, onProgress: (status: string) => void): Promise<DependencyResult> {
+	const requirements = findRequirements(scriptPath);
+	const command = resolvePythonCommand(settings, scriptPath);
+	// uv installs the requirements itself
+	if (!requirements || command.executable === "uv") {
+		return { status: "ready" };
+	}
+
+	const cacheKey = `${command.executable} ${command.args.join(" ")}|${requirements.packages.join("|")}`;
+	if (checkedEnvironments.has(cacheKey)) {
+		return { status: "ready", settings: checkedEnvironments.get(cacheKey) };
+	}
+	// an environment created by an earlier run, e.g. before the plugin restarted, needs no check
+	const environment = getEnvironmentSettings(command, requirements.packages);
+	if (fs.existsSync(path.join(environment.venvPath, completeMarker))) {
+		checkedEnvironments.set(cacheKey, environment);
+		return { status: "ready", settings: environment };
+	}
+
+	onProgress("checking\npackages");
+	const check = await checkRequirements(command, requirements.packages);
+	if (check.missing.length === 0) {
+		checkedEnvironments.set(cacheKey, undefined);
+		return { status: "ready" };
+	}
+	logger.info(`missing requirements from ${requirements.source}: ${check.missing.join(", ")}`);
+	if (!install) {
+		return { status: "missing", missing: check.missing, message: `missing packages: ${check.missing.join(", ")}` };
+	}
+
+	if (check.venv) {
+		onProgress(`installing\n${check.missing.length} packages`);
+		const error = await pipInstall(command, check.missing);
+		if (error) {
+			return { status: "missing", missing: check.missing, message: error };
+		}
+		checkedEnvironments.set(cacheKey, undefined);
+		return { status: "ready" };
+	}
+	const prepared = await prepareEnvironment(command, requirements.packages, onProgress);
+	if (prepared.status === "ready") {
+		checkedEnvironments.set(cacheKey, prepared.settings);
+	}
+	return prepared;
+}
+
+/**
+ * Parses the `dependencies` array of a `# /// script` block.
+ */
+export function parseInlineDependencies(source: string): string[] | undefined {
+	const block = source.match(/^# \/\/\/ script\s*$([\s\S]*?)^# \/\/\/\s*$/m);
+	if (!block) {
+		return undefined;
+	}
+	const toml = block[1].split(/\r?\n/).map(line => line.replace(/^#\s?/, "")).join("\n");
+	const dependencies = toml.match(/^dependencies\s*=\s*\[([\s\S]*?)\]/m);
+	if (!dependencies) {
+		return undefined;
+	}
+	const packages = [...dependencies[1].matchAll(/"([^"]+)"|'([^']+)'/g)].map(match => (match[1] ?? match[2]).trim());
+	return packages.length > 0 ? packages : undefined;
+}
+
+/**
+ * Parses a `requirements.txt`: comments, empty lines and pip options like `-r` or `--index-url` are left out.
+ */
+export function parseRequirementsFile(content: string): string[] {
+	return content
+		.split(/\r?\n/)
+		.map(line => line.replace(/(^|\s)#.*$/, "").trim())
+		.filter(line => line && !line.startsWith("-"));
+}
+
+/**
+ * Creates an environment for the requirements from the selected interpreter and installs them, or reuses the one created before.
+ * An environment that is still being created is shared instead of being created a second time.
+ */
+async function prepareEnvironment(command: PythonCommand, packages: string[], onProgress: (status: string) => void): Promise<DependencyResult> {
+	const settings = getEnvironmentSettings(command, packages);
+	const venvPath = settings.venvPath;
+	const hash = path.basename(venvPath);
+	if (fs.existsSync(path.join(venvPath, completeMarker))) {
+		return { status: "ready", settings };
+	}
+
+	onProgress("creating\nenvironment");
+	let preparing = preparingEnvironments.get(hash);
+	if (!preparing) {
+		preparing = createEnvironment(command, packages, hash, venvPath, onProgress).finally(() => preparingEnvironments.delete(hash));
+		preparingEnvironments.set(hash, preparing);
+	}
+	return preparing;
+}
+
+/**
+ * The environment the plugin creates for the requirements from the interpreter, shared by scripts with the same requirements.
+ */
+function getEnvironmentSettings(command: PythonCommand, packages: string[]): InterpreterSettings & { venvPath: string } {
+	const hash = createHash("sha256").update(`${command.executable} ${command.args.join(" ")}\n${[...packages].sort().join("\n")}`).digest("hex").substring(0, 16);
+	return { interpreter: "venv", venvPath: path.join(environmentsFolder, hash) };
+}
+
+async function createEnvironment(command: PythonCommand, packages: string[], hash: string, venvPath: string, onProgress: (status: string) => void): Promise<DependencyResult> {
+	const settings: InterpreterSettings = { interpreter: "venv", venvPath };
+	fs.rmSync(venvPath, { recursive: true, force: true });
+	const created = await runCommand({ ...command, args: [...command.args, "-m", "venv", venvPath] }, installTimeoutSeconds);
+	if (created.error) {
+		return { status: "missing", missing: packages, message: `could not create an environment: ${created.error}` };
+	}
+	onProgress(`installing\n${packages.length} packages`);
+	const error = await pipInstall({ executable: getEnvironmentPython(venvPath, true), args: [], description: `venv: ${hash}` }, packages);
+	if (error) {
+		return { status: "missing", missing: packages, message: error };
+	}
+	fs.writeFileSync(path.join(venvPath, completeMarker), packages.join("\n"));
+	logger.info(`created environment ${venvPath} for ${packages.join(", ")}`);
+	return { status: "ready", settings };
+}
+
+async function checkRequirements(command: PythonCommand, packages: string[]): Promise<{ missing: string[]; venv: boolean }> {
+	const result = await runCommand({ ...command, args: [...command.args, "-c", checkScript, JSON.stringify(packages)] }, checkTimeoutSeconds);
+	try {
+		return JSON.parse(result.stdout.trim().split(/\r?\n/).pop() ?? "");
+	} catch {
+		logger.warn(`could not check the requirements with ${command.executable}: ${result.error ?? result.stdout}`);
+		return { missing: packages, venv: false };
+	}
+}
+
+/**
+ * Installs the packages with pip. Returns the error, or `undefined` on success.
+ */
+async function pipInstall(command: PythonCommand, packages: string[]): Promise<string | undefined> {
+	const result = await runCommand({ ...command, args: [...command.args, "-m", "pip", "install", "--disable-pip-version-check", ...packages] }, installTimeoutSeconds);
+	if (result.error) {
+		logger.warn(`installing ${packages.join(", ")} failed: ${result.error}`);
+		return `installing ${packages.join(", ")} failed: ${result.error}`;
+	}
+	return undefined;
+}
+
+function runCommand(command: PythonCommand, timeoutSeconds: number): Promise<{ stdout: string; error?: string }> {
+	const options = { env: { ...process.env, ...command.env }, timeout: timeoutSeconds * 1000, windowsHide: true, maxBuffer: 10 * 1024 * 1024 };
+	return new Promise(resolve => {
+		execFile(command.executable, command.args, options, (error, stdout, stderr) => {
+			const lastLines = stderr.toString().trim().split(/\r?\n/).slice(-3).join(" ");
+			resolve({ stdout: stdout.toString(), error: error ? lastLines || error.message : undefined });
+		});
+	});
+}
@@ -0,0 +1,122 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "node:path";
+import { findCondaRoots, getEnvironmentPython, getPyenvRoot, InterpreterSettings, resolvePythonCommand } from "./interpreter";
+import { logger } from "./logger";
+
+/**
+ * An interpreter found on this machine, with the settings that select it.
+ */
+export type DiscoveredInterpreter = {
+	label: string;
+	settings: InterpreterSettings;
+	executable: string;
+	/**
+	 * Output of `--version`, e.g. `Python 3.12.1`. For tools that wrap python (uv, poetry, pipenv) this is the version of the tool.
+	 */
+	version?: string;
+};
+
+type Candidate = Omit<DiscoveredInterpreter, "version">;
+
+/**
+ * Seconds to wait for `--version` and other probing commands.
+ */
+const probeTimeoutSeconds = 5;
+
+/**
+ * Lists the interpreters available for the script: the system python, project environments next to the script,
+ * conda environments, pyenv versions and uv. Interpreters that are not installed are left out.
+ */
+export async function discoverInterpreters(scriptPath?: string): Promise<DiscoveredInterpreter[]> {
+	const candidates: Candidate[] = [
+		{ label: "System python", settings: { interpreter: "system" }, executable: os.platform() === "win32" ? "python" : "python3" },
+		...(scriptPath ? findProjectEnvironments(scriptPath) : []),
+		...(await findCondaEnvironments()),
+		...findPyenvVersions(),
+		{ label: "uv run", settings: { interpreter: "uv" }, executable: "uv" }
+	];
+
+	// running wrappers like `poetry run python --version` could create environments, so only the tool itself is asked
+	const discovered = await Promise.all(candidates.map(async candidate => ({ ...candidate, version: await getPythonVersion(candidate.executable) })));
+	return discovered.filter(interpreter => interpreter.version);
+}
+
+/**
+ * Returns the version reported by `python --version`, or `undefined` when the interpreter cannot be started.
+ */
+export function getPythonVersion(executable: string): Promise<string | undefined> {
+	return runProbe(executable, ["--version"]);
+}
+
+function findProjectEnvironments(scriptPath: string): Candidate[] {
+	const projectDir = path.dirname(scriptPath);
+	const environments: Candidate[] = [];
+	for (const folder of [".venv", "venv", "env"]) {
+		const venvPath = path.join(projectDir, folder);
+		if (fs.existsSync(path.join(venvPath, "pyvenv.cfg"))) {
+			environments.push({ label: `${folder} (next to script)`, settings: { interpreter: "venv", venvPath }, executable: getEnvironmentPython(venvPath, true) });
+		}
+	}
+	const autoCommand = resolvePythonCommand({ interpreter: "auto" }, scriptPath);
+	if (autoCommand.description) {
+		environments.push({ label: `auto-detect (${autoCommand.description})`, settings: { interpreter: "auto" }, executable: autoCommand.executable });
+	}
+	return environments;
+}
+
+async function findCondaEnvironments(): Promise<Candidate[]> {
+	const environmentPaths = new Set<string>();
+	const output = await runProbe("conda", ["env", "list", "--json"]);
+	if (output) {
+		try {
+			(JSON.parse(output).envs as string[]).forEach(environmentPath => environmentPaths.add(environmentPath));
+		} catch (error) {
+			logger.warn(`Could not read conda environments: ${error}`);
+		}
+	}
+	for (const root of findCondaRoots()) {
+		environmentPaths.add(root);
+		for (const name of readDirectories(path.join(root, "envs"))) {
+			environmentPaths.add(path.join(root, "envs", name));
+		}
+	}
+
+	return [...environmentPaths].map(environmentPath => {
+		const name = path.basename(path.dirname(environmentPath)) === "envs" ? path.basename(environmentPath) : "base";
+		return { label: `conda: ${name}`, settings: { interpreter: "conda" as const, condaEnv: name }, executable: getEnvironmentPython(environmentPath, false) };
+	});
+}
+
+function findPyenvVersions(): Candidate[] {
+	const versionsPath = path.join(getPyenvRoot(), "versions");
+	return readDirectories(versionsPath).map(version => ({
+		label: `pyenv: ${version}`,
+		settings: { interpreter: "pyenv" as const, pyenvVersion: version },
+		executable: os.platform() === "win32" ? path.join(versionsPath, version, "python.exe") : path.join(versionsPath, version, "bin", "python")
+	}));
+}
+
+function readDirectories(folder: string): string[] {
+	try {
+		return fs.readdirSync(folder, { withFileTypes: true }).filter(entry => entry.isDirectory()).map(entry => entry.name);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Runs a short command and returns its trimmed output (python 2 prints its version to stderr), or `undefined` on failure.
+ */
+function runProbe(executable: string, args: string[]): Promise<string | undefined> {
+	return new Promise(resolve => {
+		execFile(executable, args, { timeout: probeTimeoutSeconds * 1000, windowsHide: true }, (error, stdout, stderr) => {
+			if (error) {
+				resolve(undefined);
+				return;
+			}
+			resolve((stdout || stderr).toString().trim() || undefined);
+		});
+	});
+}
@@ -0,0 +1,223 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "node:path";
+
+/**
+ * How the python interpreter of a script is chosen.
+ * - `default`: the default interpreter of the global settings, resolved by the plugin before the script runs; `system` without one
+ * - `system`: `python` (Windows) or `python3` from the PATH
+ * - `venv`: the virtual environment at `venvPath`
+ * - `auto`: the project environment next to the script (`.venv`, `venv`, uv, poetry, pipenv), falls back to `system`
+ * - `conda`: the conda environment named `condaEnv`
+ * - `pyenv`: the pyenv version `pyenvVersion`
+ * - `path`: the interpreter at `pythonPath`
+ * - `uv`: `uv run`, scripts with PEP 723 inline metadata get their own environment
+ */
+export type InterpreterKind = "default" | "system" | "venv" | "auto" | "conda" | "pyenv" | "path" | "uv";
+
+/**
+ * Settings that select the python interpreter.
+ */
+export type InterpreterSettings = {
+	interpreter?: InterpreterKind;
+	useVenv?: boolean;
+	venvPath?: string;
+	condaEnv?: string;
+	pyenvVersion?: string;
+	pythonPath?: string;
+};
+
+/**
+ * The command that runs a script: `executable ...args <script> ...scriptArgs`.
+ */
+export type PythonCommand = {
+	executable: string;
+	args: string[];
+	/**
+	 * Extra environment variables the command needs.
+	 */
+	env?: Record<string, string>;
+	/**
+	 * Short description for titles and logs, e.g. `venv: .venv`.
+	 */
+	description: string;
+};
+
+const isWindows = () => os.platform() === "win32";
+
+/**
+ * Folders conda is usually installed to, relative to the home directory.
+ */
+const condaInstallFolders = ["miniconda3", "anaconda3", "miniforge3", "mambaforge", "micromamba", ".conda", "opt/miniconda3", "opt/anaconda3"];
+
+/**
+ * Returns the selected interpreter kind. Settings from before the interpreter selection existed only know `useVenv`,
+ * without it they use the default interpreter.
+ */
+export function getInterpreterKind(settings: InterpreterSettings): InterpreterKind {
+	return settings.interpreter ?? (settings.useVenv && settings.venvPath ? "venv" : "default");
+}
+
+/**
+ * Resolves the command that runs the script with the interpreter selected in the settings.
+ */
+export function resolvePythonCommand(settings: InterpreterSettings, scriptPath: string): PythonCommand {
+	const kind = getInterpreterKind(settings);
+	switch (kind) {
+		case "venv":
+			if (settings.venvPath) {
+				const venvPath = normalizeVenvPath(settings.venvPath);
+				return { executable: getEnvironmentPython(venvPath, true), args: [], description: `venv: ${path.basename(venvPath)}` };
+			}
+			break;
+		case "auto":
+			return resolveProjectCommand(scriptPath) ?? getSystemCommand();
+		case "conda":
+			if (settings.condaEnv) {
+				return resolveCondaCommand(settings.condaEnv.trim());
+			}
+			break;
+		case "pyenv":
+			if (settings.pyenvVersion) {
+				return resolvePyenvCommand(settings.pyenvVersion.trim());
+			}
+			break;
+		case "path":
+			if (settings.pythonPath) {
+				return { executable: settings.pythonPath.trim(), args: [], description: path.basename(settings.pythonPath.trim()) };
+			}
+			break;
+		case "uv":
+			return getUvCommand(scriptPath);
+	}
+	return getSystemCommand();
+}
+
+/**
+ * Checks whether the script declares PEP 723 inline metadata (a `# /// script` block).
+ */
+export function hasInlineScriptMetadata(scriptPath: string): boolean {
+	try {
+		return /^# \/\/\/ script\s*$/m.test(fs.readFileSync(scriptPath, "utf-8"));
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Returns the python executable inside an environment folder (venv or conda).
+ */
+export function getEnvironmentPython(environmentPath: string, isVenv: boolean): string {
+	if (isWindows()) {
+		return isVenv ? path.join(environmentPath, "Scripts", "python.exe") : path.join(environmentPath, "python.exe");
+	}
+	return path.join(environmentPath, "bin", isVenv ? "python3" : "python");
+}
+
+/**
+ * Returns the root folder of pyenv (or pyenv-win on Windows).
+ */
+export function getPyenvRoot(): string {
+	const root = process.env.PYENV_ROOT ?? path.join(os.homedir(), ".pyenv");
+	return isWindows() && fs.existsSync(path.join(root, "pyenv-win")) ? path.join(root, "pyenv-win") : root;
+}
+
+/**
+ * Returns the conda installations found in the usual install folders.
+ */
+export function findCondaRoots(): string[] {
+	const candidates = [
+		process.env.CONDA_PREFIX && path.basename(path.dirname(process.env.CONDA_PREFIX)) === "envs" ? path.dirname(path.dirname(process.env.CONDA_PREFIX)) : process.env.CONDA_PREFIX,
+		process.env.CONDA_EXE ? path.dirname(path.dirname(process.env.CONDA_EXE)) : undefined,
+		...condaInstallFolders.map(folder => path.join(os.homedir(), folder)),
+		"/opt/conda",
+		"/opt/homebrew/Caskroom/miniconda/base"
+	];
+	return [...new Set(candidates.filter((candidate): candidate is string => Boolean(candidate) && fs.existsSync(path.join(candidate as string, "envs"))))];
+}
+
+/**
+ * Normalizes the virtual environment path.
+ * If the path points to a pyvenv.cfg file, returns its parent directory.
+ * Otherwise, returns the path as-is.
+ */
+export function normalizeVenvPath(venvPath: string): string {
+	try {
+		// Check if the path points to a file (likely pyvenv.cfg)
+		if (fs.existsSync(venvPath) && fs.statSync(venvPath).isFile()) {
+			// Return the parent directory
+			return path.dirname(venvPath);
+		}
+	} catch {
+		// fall through, the path is used as-is
+	}
+	// If it's already a directory or doesn't exist yet, return as-is
+	return venvPath;
+}
+
+/**
+ * Returns the file name of a script path, for Windows and POSIX paths alike.
+ */
+export function getFileNameFromPath(scriptPath: string): string {
+	return scriptPath.substring(Math.max(scriptPath.lastIndexOf("/"), scriptPath.lastIndexOf("\\")) + 1);
+}
+
+function getSystemCommand(): PythonCommand {
+	return { executable: isWindows() ? "python" : "python3", args: [], description: "" };
+}
+
+function getUvCommand(scriptPath: string): PythonCommand {
+	if (hasInlineScriptMetadata(scriptPath)) {
+		return { executable: "uv", args: ["run", "--script"], description: "uv script" };
+	}
+	return { executable: "uv", args: ["run", "--project", path.dirname(scriptPath), "python"], description: "uv" };
+}
+
+/**
+ * Finds the project environment next to the script, in the order `.venv`/`venv`, PEP 723 inline metadata, uv, poetry, pipenv.
+ */
+function resolveProjectCommand(scriptPath: string): PythonCommand | undefined {
+	const projectDir = path.dirname(scriptPath);
+	for (const folder of [".venv", "venv"]) {
+		const venvPath = path.join(projectDir, folder);
+		if (fs.existsSync(path.join(venvPath, "pyvenv.cfg"))) {
+			return { executable: getEnvironmentPython(venvPath, true), args: [], description: `venv: ${folder}` };
+		}
+	}
+	if (hasInlineScriptMetadata(scriptPath) || fs.existsSync(path.join(projectDir, "uv.lock"))) {
+		return getUvCommand(scriptPath);
+	}
+	if (isPoetryProject(projectDir)) {
+		return { executable: "poetry", args: ["-C", projectDir, "run", "python"], description: "poetry" };
+	}
+	if (fs.existsSync(path.join(projectDir, "Pipfile"))) {
+		return { executable: "pipenv", args: ["run", "python"], env: { PIPENV_PIPFILE: path.join(projectDir, "Pipfile") }, description: "pipenv" };
+	}
+	return undefined;
+}
+
+function isPoetryProject(projectDir: string): boolean {
+	try {
+		return fs.readFileSync(path.join(projectDir, "pyproject.toml"), "utf-8").includes("[tool.poetry]");
+	} catch {
+		return false;
+	}
+}
+
+function resolveCondaCommand(name: string): PythonCommand {
+	for (const root of findCondaRoots()) {
+		const environmentPath = name === "base" ? root : path.join(root, "envs", name);
+		const executable = getEnvironmentPython(environmentPath, false);
+		if (fs.existsSync(executable)) {
+			return { executable, args: [], description: `conda: ${name}` };
+		}
+	}
+	// unknown install location, let conda find the environment itself
+	return { executable: "conda", args: ["run", "-n", name, "--no-capture-output", "python"], description: `conda: ${name}` };
+}
+
+function resolvePyenvCommand(version: string): PythonCommand {
+	const versionPath = path.join(getPyenvRoot(), "versions", version);
+	const executable = isWindows() ? path.join(versionPath, "python.exe") : path.join(versionPath, "bin", "python");
+	return { executable, args: [], description: `pyenv: ${version}` };
+}
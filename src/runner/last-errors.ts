@@ -0,0 +1,51 @@
+import { RunResult } from "./python-run";
+import { PythonError } from "./python-errors";
+
+/**
+ * The last failed run of an action, with everything the property inspector shows about it.
+ */
+export type LastError = {
+	/**
+	 * Time of the failure in milliseconds since the epoch.
+	 */
+	timestamp: number;
+	scriptPath: string;
+	exitCode: number | null;
+	error: PythonError;
+	/**
+	 * The complete stderr output of the run, including the traceback.
+	 */
+	stderr: string;
+};
+
+/**
+ * Keeps the last error of each action until it is replaced by a newer one or cleared.
+ */
+class LastErrorStore {
+	private errors = new Map<string, LastError>();
+
+	/**
+	 * Stores the failed run as the last error of the action and returns the stored entry.
+	 */
+	record(actionId: string, scriptPath: string, result: RunResult & { error: PythonError }): LastError {
+		const lastError: LastError = {
+			timestamp: Date.now(),
+			scriptPath,
+			exitCode: result.exitCode,
+			error: result.error,
+			stderr: result.stderr
+		};
+		this.errors.set(actionId, lastError);
+		return lastError;
+	}
+
+	get(actionId: string): LastError | undefined {
+		return this.errors.get(actionId);
+	}
+
+	clear(actionId: string) {
+		this.errors.delete(actionId);
+	}
+}
+
+export const lastErrors = new LastErrorStore();
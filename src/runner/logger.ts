@@ -0,0 +1,33 @@
+/**
+ * The logging methods the runner needs. The runner does not import the Stream Deck SDK, so it can be used
+ * and tested without a Stream Deck attached; the plugin hands in `streamDeck.logger` with {@link setRunnerLogger}.
+ */
+export type RunnerLogger = {
+	debug(message: string): unknown;
+	info(message: string): unknown;
+	warn(message: string): unknown;
+	error(message: string): unknown;
+};
+
+const silentLogger: RunnerLogger = {
+	debug: () => undefined,
+	info: () => undefined,
+	warn: () => undefined,
+	error: () => undefined
+};
+
+let currentLogger: RunnerLogger = silentLogger;
+
+export function setRunnerLogger(logger: RunnerLogger) {
+	currentLogger = logger;
+}
+
+/**
+ * Logger of the runner, silent until {@link setRunnerLogger} is called.
+ */
+export const logger: RunnerLogger = {
+	debug: (message: string) => currentLogger.debug(message),
+	info: (message: string) => currentLogger.info(message),
+	warn: (message: string) => currentLogger.warn(message),
+	error: (message: string) => currentLogger.error(message)
+};
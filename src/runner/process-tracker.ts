@@ -0,0 +1,156 @@
+import { ChildProcess } from "child_process";
+import { logger } from "./logger";
+
+/**
+ * What happens when an action is triggered while its previous run is still alive.
+ * - `skip`: the new run is dropped
+ * - `queue`: the new run starts after the current one finished, at most one run is queued
+ * - `kill`: the current run is killed and the new run starts right away
+ */
+export type ConcurrencyPolicy = "skip" | "queue" | "kill";
+
+/**
+ * Settings shared by all actions that spawn python processes.
+ */
+export type ProcessControlSettings = {
+	/**
+	 * Seconds after which a run is killed, empty or 0 disables the timeout.
+	 */
+	timeout?: number | string;
+	concurrency?: ConcurrencyPolicy;
+	showRunning?: boolean;
+};
+
+type RunOptions = {
+	policy?: ConcurrencyPolicy;
+	timeout?: number | string;
+	/**
+	 * Called when the run has been killed because it exceeded the timeout.
+	 */
+	onTimeout?: () => void;
+	/**
+	 * Called once the process is gone, no matter why.
+	 */
+	onExit?: (code: number | null, killed: boolean) => void;
+};
+
+type TrackedProcess = {
+	process: ChildProcess;
+	timeoutId?: NodeJS.Timeout;
+	killed: boolean;
+	queued?: () => void;
+};
+
+/**
+ * Holding a key this long aborts its running script.
+ */
+export const longPressMs = 800;
+
+/**
+ * Seconds to wait after SIGTERM before the process is killed for good.
+ */
+const killGraceSeconds = 3;
+
+/**
+ * Keeps the handle of the process each action has spawned, so runs can time out, be aborted and don't overlap.
+ */
+class ProcessTracker {
+	private processes = new Map<string, TrackedProcess>();
+
+	/**
+	 * Starts a run for the action, unless the concurrency policy decides otherwise.
+	 * `spawnProcess` is only called when the run actually starts.
+	 * Returns `false` when the run was skipped or queued.
+	 */
+	run(actionId: string, spawnProcess: () => ChildProcess | undefined, options: RunOptions = {}): boolean {
+		const current = this.processes.get(actionId);
+		if (current) {
+			switch (options.policy ?? "skip") {
+				case "skip":
+					logger.info(`action ${actionId} is still running - skipping this run`);
+					return false;
+				case "queue":
+					logger.info(`action ${actionId} is still running - queueing this run`);
+					current.queued = () => this.run(actionId, spawnProcess, options);
+					return false;
+				case "kill":
+					logger.info(`action ${actionId} is still running - killing the previous run`);
+					this.processes.delete(actionId);
+					this.kill(current);
+					break;
+			}
+		}
+
+		const process = spawnProcess();
+		if (!process) {
+			return false;
+		}
+		const tracked: TrackedProcess = { process, killed: false };
+		this.processes.set(actionId, tracked);
+
+		const timeoutSeconds = parseTimeout(options.timeout);
+		if (timeoutSeconds) {
+			tracked.timeoutId = setTimeout(() => {
+				logger.warn(`action ${actionId} exceeded the timeout of ${timeoutSeconds}s - killing it`);
+				this.kill(tracked);
+				options.onTimeout?.();
+			}, timeoutSeconds * 1000);
+		}
+
+		process.on("close", (code: number | null) => {
+			clearTimeout(tracked.timeoutId);
+			if (this.processes.get(actionId) === tracked) {
+				this.processes.delete(actionId);
+			}
+			options.onExit?.(code, tracked.killed);
+			tracked.queued?.();
+		});
+		return true;
+	}
+
+	isRunning(actionId: string): boolean {
+		return this.processes.has(actionId);
+	}
+
+	/**
+	 * Kills the current run of the action and drops a queued run.
+	 * Returns `false` when nothing was running.
+	 */
+	abort(actionId: string): boolean {
+		const tracked = this.processes.get(actionId);
+		if (!tracked) {
+			return false;
+		}
+		logger.info(`aborting the run of action ${actionId}`);
+		tracked.queued = undefined;
+		this.kill(tracked);
+		return true;
+	}
+
+	private kill(tracked: TrackedProcess) {
+		tracked.killed = true;
+		clearTimeout(tracked.timeoutId);
+		terminateProcess(tracked.process);
+	}
+}
+
+/**
+ * Asks the process to stop with SIGTERM and kills it for good when it is still alive after {@link killGraceSeconds}.
+ * Also used for processes the tracker doesn't own, like persistent workers and the steps of a sequence.
+ */
+export function terminateProcess(process: ChildProcess) {
+	process.kill("SIGTERM");
+	const forceKill = setTimeout(() => {
+		if (process.exitCode === null && process.signalCode === null) {
+			process.kill("SIGKILL");
+		}
+	}, killGraceSeconds * 1000);
+	process.once("close", () => clearTimeout(forceKill));
+}
+
+function parseTimeout(value: number | string | undefined): number | undefined {
+	const timeout = typeof value === "string" ? Number(value.trim()) : value;
+	return timeout !== undefined && Number.isFinite(timeout) && timeout > 0 ? timeout : undefined;
+}
+
+export const processTracker = new ProcessTracker();
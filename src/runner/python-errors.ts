@@ -0,0 +1,142 @@
+import { getFileNameFromPath } from "./interpreter";
+
+/**
+ * Error mapping for python errors: text found in stderr → title shown on the key.
+ */
+export const pythonErrorMap: { [key: string]: string } = {
+	"SyntaxError": "Python\nSyntax\nError",
+	"NameError": "Python\nName\nError",
+	"TypeError": "Python\nType\nError",
+	"ValueError": "Python\nValue\nError",
+	"ZeroDivisionError": "Python\nZeroDiv\nError",
+	"IndexError": "Python\nIndex\nError",
+	"KeyError": "Python\nKey\nError",
+	"AttributeError": "Python\nAttribute\nError",
+	"ImportError": "Python\nImport\nError",
+	"No such file or directory": "Python\nFile\nError",
+	"ModuleNotFoundError": "Python\nModule\nError",
+	"RuntimeError": "Python\nRuntime\nError",
+	"MemoryError": "Python\nMemory\nError",
+	"OverflowError": "Python\nOverflow\nError",
+	"SystemError": "Python\nSystem\nError",
+	"Microsoft Store": "Python\nnot found\nError"
+};
+
+/**
+ * Title for errors that are not part of {@link pythonErrorMap}.
+ */
+export const unknownErrorTitle = "python\nother\nissue";
+
+/**
+ * The final exception of a python traceback.
+ */
+export type PythonTraceback = {
+	/**
+	 * Class name of the exception without its module, e.g. `MyError` for `__main__.MyError`.
+	 */
+	exceptionType: string;
+	exceptionMessage: string;
+	/**
+	 * Innermost frame of the traceback: the file, line number and source line that raised.
+	 */
+	file?: string;
+	line?: number;
+	code?: string;
+};
+
+/**
+ * A classified python error.
+ */
+export type PythonError = {
+	/**
+	 * The exception class, or the matching key of {@link pythonErrorMap} when the output has no traceback.
+	 */
+	errorClass?: string;
+	/**
+	 * Title to show on the key.
+	 */
+	title: string;
+	/**
+	 * Summary of the error on a single line.
+	 */
+	message: string;
+	traceback?: PythonTraceback;
+};
+
+/**
+ * Classifies a failed run. A traceback in the stderr output names the exception, including custom exception classes;
+ * output without a traceback is searched for the known errors of {@link pythonErrorMap}.
+ */
+export function classifyPythonError(stderr: string, exitCode?: number | null): PythonError {
+	const traceback = parsePythonTraceback(stderr);
+	if (traceback) {
+		const location = traceback.line !== undefined ? ` (${getFileNameFromPath(traceback.file ?? "")}:${traceback.line})` : "";
+		return {
+			errorClass: traceback.exceptionType,
+			title: getErrorTitle(traceback.exceptionType),
+			message: `${traceback.exceptionType}: ${traceback.exceptionMessage}${location}`,
+			traceback
+		};
+	}
+
+	const message = stderr.trim().replace(/(?:\r\n|\r|\n)/g, " ");
+	for (const key in pythonErrorMap) {
+		if (message.includes(key)) {
+			return { errorClass: key, title: pythonErrorMap[key], message };
+		}
+	}
+	if (!message && exitCode !== undefined && exitCode !== null) {
+		return { title: `Python\nexit code\n${exitCode}`, message: `exited with code ${exitCode}` };
+	}
+	return { title: unknownErrorTitle, message };
+}
+
+/**
+ * Reads the final exception and the innermost frame from the stderr output of python.
+ * Returns `undefined` when the output does not end in an exception, e.g. for warnings or log output.
+ */
+export function parsePythonTraceback(stderr: string): PythonTraceback | undefined {
+	const lines = stderr.split(/\r?\n/);
+	let frameIndex = -1;
+	for (let index = lines.length - 1; index >= 0; index--) {
+		if (/^\s*File ".*", line \d+/.test(lines[index])) {
+			frameIndex = index;
+			break;
+		}
+	}
+	if (frameIndex === -1) {
+		return undefined;
+	}
+
+	// the exception follows the frame after the indented source and caret lines; notes may follow the exception
+	const exceptionLine = lines.slice(frameIndex + 1).find(line => line && !/^\s/.test(line));
+	const exception = exceptionLine?.match(/^((?:[A-Za-z_]\w*\.)*)([A-Za-z_]\w*)(?::\s?(.*))?$/);
+	if (!exception) {
+		return undefined;
+	}
+
+	const frame = lines[frameIndex].match(/File "(.*)", line (\d+)/);
+	const codeLine = lines[frameIndex + 1];
+	return {
+		exceptionType: exception[2],
+		exceptionMessage: exception[3] ?? "",
+		file: frame?.[1],
+		line: frame ? Number(frame[2]) : undefined,
+		code: codeLine && /^\s{4}/.test(codeLine) && !/^\s*[\^~]+\s*$/.test(codeLine) ? codeLine.trim() : undefined
+	};
+}
+
+/**
+ * Title for an exception class: the title of {@link pythonErrorMap} for builtin errors,
+ * the class name split into name and suffix for custom exceptions, e.g. `Python\nQuota\nError` for `QuotaError`.
+ */
+function getErrorTitle(exceptionType: string): string {
+	if (pythonErrorMap[exceptionType]) {
+		return pythonErrorMap[exceptionType];
+	}
+	const suffix = exceptionType.match(/^(.+?)(Error|Exception|Warning)$/);
+	if (suffix) {
+		return `Python\n${suffix[1]}\n${suffix[2]}`;
+	}
+	return `Python\n${exceptionType}`;
+}
@@ -0,0 +1,208 @@
+import { ChildProcess, spawn } from "child_process";
+import { EventEmitter } from "node:events";
+import * as os from "os";
+import * as path from "node:path";
+import { InterpreterSettings, resolvePythonCommand } from "./interpreter";
+import { logger } from "./logger";
+import { classifyPythonError, PythonError } from "./python-errors";
+import { handleRpcRequest, parseRpcRequest, RpcHandlers } from "./rpc-channel";
+import { ScriptInvocation } from "./script-environment";
+
+/**
+ * Everything needed to start a python script.
+ */
+export type RunRequest = InterpreterSettings & {
+	scriptPath: string;
+	invocation: ScriptInvocation;
+	/**
+	 * Disables the output buffering of python, so lines arrive as soon as the script prints them.
+	 */
+	unbuffered?: boolean;
+	/**
+	 * Methods the script can call through the bundled `streamdeck` module. Calls are answered with "method not found" without them.
+	 */
+	rpcHandlers?: RpcHandlers;
+	/**
+	 * Text written to stdin of the script, which is closed afterwards. Calls of the `streamdeck` module fail in that case.
+	 */
+	input?: string;
+	/**
+	 * Keeps only the last this many characters of stdout and stderr for the {@link RunResult}, so processes that run for days,
+	 * like persistent workers, don't collect their whole output. Everything is kept without it.
+	 */
+	maxOutputLength?: number;
+};
+
+/**
+ * Outcome of a finished run.
+ */
+export type RunResult = {
+	stdout: string;
+	stderr: string;
+	exitCode: number | null;
+	signal: NodeJS.Signals | null;
+	durationMs: number;
+	/**
+	 * The classified error, set when the script exited with a non-zero code or could not be started.
+	 * Output on stderr alone (warnings, logging) does not count as failure, neither does a run killed by a signal.
+	 */
+	error?: PythonError;
+};
+
+export interface PythonRun {
+	/**
+	 * The complete stdout lines of a chunk, without JSON-RPC requests. A line without break is only emitted once the process is gone.
+	 */
+	on(event: "stdout", listener: (chunk: string) => void): this;
+	/**
+	 * A complete stdout line, without the line break. JSON-RPC requests are not emitted.
+	 */
+	on(event: "line", listener: (line: string) => void): this;
+	/**
+	 * Raw stderr chunk, as it arrived.
+	 */
+	on(event: "stderr", listener: (chunk: string) => void): this;
+	/**
+	 * The interpreter could not be started.
+	 */
+	on(event: "spawnError", listener: (error: Error) => void): this;
+	/**
+	 * The process is gone and its output streams are closed.
+	 */
+	on(event: "exit", listener: (result: RunResult) => void): this;
+}
+
+/**
+ * A single execution of a python script. Listeners are attached before {@link PythonRun.start} is called:
+ *
+ * ```ts
+ * const run = new PythonRun({ scriptPath, invocation });
+ * run.on("line", line => ...).on("exit", result => ...);
+ * run.start();
+ * ```
+ *
+ * Lines the script prints as JSON-RPC requests are answered on its stdin with the {@link RunRequest.rpcHandlers} and are no output.
+ */
+export class PythonRun extends EventEmitter {
+	private child?: ChildProcess;
+	private stdout = "";
+	private stderr = "";
+	private pendingLine = "";
+	private spawnError?: Error;
+
+	constructor(readonly request: RunRequest) {
+		super();
+	}
+
+	get process(): ChildProcess | undefined {
+		return this.child;
+	}
+
+	/**
+	 * Spawns the interpreter. Returns the process, or `undefined` when the run was already started.
+	 */
+	start(): ChildProcess | undefined {
+		if (this.child) {
+			return undefined;
+		}
+
+		const { request } = this;
+		const isWindows = os.platform() === "win32";
+		const scriptPath = isWindows ? path.win32.normalize(request.scriptPath) : request.scriptPath;
+		const command = resolvePythonCommand(request, request.scriptPath);
+		const args = [...command.args, scriptPath, ...request.invocation.args];
+		logger.info(`running ${command.executable} ${args.join(" ")}`);
+
+		const startedAt = Date.now();
+		const child = spawn(command.executable, args, {
+			cwd: request.invocation.cwd,
+			env: {
+				...request.invocation.env,
+				...command.env,
+				...(request.unbuffered ? { PYTHONUNBUFFERED: "1" } : {})
+			},
+			windowsHide: true
+		});
+		this.child = child;
+
+		child.stdout?.on("data", (data: Buffer) => {
+			const lines = (this.pendingLine + data.toString()).split("\n");
+			this.pendingLine = lines.pop() ?? "";
+			this.emitOutput(lines);
+		});
+		child.stdin?.on("error", (error: Error) => logger.debug(`stdin of python process closed: ${error.message}`));
+		if (request.input !== undefined) {
+			child.stdin?.end(request.input);
+		}
+		child.stderr?.on("data", (data: Buffer) => {
+			const chunk = data.toString();
+			this.stderr = this.keepTail(this.stderr + chunk);
+			this.emit("stderr", chunk);
+		});
+		child.on("error", (error: Error) => {
+			logger.error(`Failed to start python process: ${error.message}`);
+			this.spawnError = error;
+			this.emit("spawnError", error);
+		});
+		child.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+			if (this.pendingLine) {
+				const line = this.pendingLine;
+				this.pendingLine = "";
+				this.emitOutput([line], false);
+			}
+			const failed = Boolean(this.spawnError) || (code !== null && code !== 0);
+			const result: RunResult = {
+				stdout: this.stdout,
+				stderr: this.stderr,
+				exitCode: code,
+				signal,
+				durationMs: Date.now() - startedAt,
+				error: failed ? classifyPythonError(this.stderr || this.spawnError?.message || "", code) : undefined
+			};
+			if (failed) {
+				logger.warn(`child process failed with code ${code} after ${result.durationMs}ms: ${result.error?.message}`);
+			} else {
+				logger.debug(`child process exited with code ${code} after ${result.durationMs}ms`);
+			}
+			this.emit("exit", result);
+		});
+		return child;
+	}
+
+	/**
+	 * Answers JSON-RPC requests among the lines and emits the others as output.
+	 */
+	private emitOutput(lines: string[], lineBreaks = true) {
+		const output = lines.filter(line => {
+			const request = parseRpcRequest(line);
+			if (request) {
+				this.answer(request.method, handleRpcRequest(request, this.request.rpcHandlers));
+			}
+			return !request;
+		});
+		if (output.length === 0) {
+			return;
+		}
+		const chunk = output.join("\n") + (lineBreaks ? "\n" : "");
+		this.stdout = this.keepTail(this.stdout + chunk);
+		this.emit("stdout", chunk);
+		for (const line of output) {
+			this.emit("line", line.replace(/\r$/, ""));
+		}
+	}
+
+	private keepTail(output: string): string {
+		const { maxOutputLength } = this.request;
+		return maxOutputLength !== undefined && output.length > maxOutputLength ? output.slice(-maxOutputLength) : output;
+	}
+
+	private async answer(method: string, pending: ReturnType<typeof handleRpcRequest>) {
+		const response = await pending;
+		if (response?.error) {
+			logger.warn(`script call ${method} failed: ${response.error.message}`);
+		}
+		if (response && this.child?.stdin?.writable) {
+			this.child.stdin.write(JSON.stringify(response) + "\n");
+		}
+	}
+}
@@ -0,0 +1,83 @@
+/**
+ * A JSON-RPC 2.0 request a script printed as a single line on stdout.
+ */
+export type RpcRequest = {
+	jsonrpc: "2.0";
+	/**
+	 * Missing for notifications, which get no response.
+	 */
+	id?: number | string | null;
+	method: string;
+	params?: unknown;
+};
+
+export type RpcResponse = {
+	jsonrpc: "2.0";
+	id: number | string | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+};
+
+/**
+ * Methods a script can call, keyed by method name. Handlers receive the `params` of the request, their return value is the `result`.
+ */
+export type RpcHandlers = {
+	[method: string]: (params: unknown) => unknown;
+};
+
+export const rpcErrorCodes = {
+	methodNotFound: -32601,
+	invalidParams: -32602,
+	internalError: -32603
+};
+
+/**
+ * Error a handler throws to answer with a specific JSON-RPC error code.
+ */
+export class RpcError extends Error {
+	constructor(
+		readonly code: number,
+		message: string
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Reads a stdout line as {@link RpcRequest}. Returns `undefined` for every other line, which stays regular output.
+ */
+export function parseRpcRequest(line: string): RpcRequest | undefined {
+	const candidate = line.trim();
+	if (!candidate.startsWith("{") || !candidate.includes("\"jsonrpc\"")) {
+		return undefined;
+	}
+	try {
+		const parsed = JSON.parse(candidate);
+		if (parsed && parsed.jsonrpc === "2.0" && typeof parsed.method === "string") {
+			return parsed;
+		}
+	} catch {
+		// regular output that happens to look like JSON
+	}
+	return undefined;
+}
+
+/**
+ * Calls the handler of the request. Returns the response, or `undefined` for notifications.
+ */
+export async function handleRpcRequest(request: RpcRequest, handlers: RpcHandlers | undefined): Promise<RpcResponse | undefined> {
+	const id = request.id ?? null;
+	let response: RpcResponse;
+	const handler = handlers && Object.prototype.hasOwnProperty.call(handlers, request.method) ? handlers[request.method] : undefined;
+	if (!handler) {
+		response = { jsonrpc: "2.0", id, error: { code: rpcErrorCodes.methodNotFound, message: `unknown method ${request.method}` } };
+	} else {
+		try {
+			response = { jsonrpc: "2.0", id, result: (await handler(request.params ?? {})) ?? null };
+		} catch (error) {
+			const code = error instanceof RpcError ? error.code : rpcErrorCodes.internalError;
+			response = { jsonrpc: "2.0", id, error: { code, message: error instanceof Error ? error.message : String(error) } };
+		}
+	}
+	return request.id === undefined ? undefined : response;
+}
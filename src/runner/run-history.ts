@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { logger } from "./logger";
+import { RunResult } from "./python-run";
+
+/**
+ * One finished run of an action, as the property inspector lists it.
+ */
+export type RunHistoryEntry = {
+	/**
+	 * Start of the run in milliseconds since the epoch.
+	 */
+	timestamp: number;
+	scriptPath: string;
+	/**
+	 * What started the run, e.g. `keyDown`, `interval` or `fileChange`.
+	 */
+	trigger: string;
+	/**
+	 * The changed file, for runs started by a file watch. Re-runs pass it again.
+	 */
+	changedPath?: string;
+	durationMs: number;
+	exitCode: number | null;
+	signal: NodeJS.Signals | null;
+	failed: boolean;
+	/**
+	 * Output of the run, cut to {@link maxOutputLength} characters.
+	 */
+	stdout: string;
+	stderr: string;
+};
+
+/**
+ * Runs kept per action, older ones are dropped.
+ */
+export const maxHistoryEntries = 50;
+
+/**
+ * Characters of stdout and stderr kept per run. The end of the output is kept, that's where results and tracebacks are.
+ */
+export const maxOutputLength = 4000;
+
+/**
+ * The history is stored next to the logs of the plugin, one JSON file per action: `history/<action id>.json`.
+ */
+const historyFolder = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "history");
+
+/**
+ * Keeps the recent runs of each action on disk, so they survive restarts of the plugin and Stream Deck.
+ * Files are read on first access and written after every run.
+ */
+class RunHistoryStore {
+	private entries = new Map<string, RunHistoryEntry[]>();
+
+	/**
+	 * Pending file writes per action, chained so an older write can't overwrite a newer one.
+	 */
+	private writes = new Map<string, Promise<void>>();
+
+	/**
+	 * Adds the finished run to the history of the action and returns the stored entry.
+	 */
+	record(actionId: string, scriptPath: string, trigger: string, result: RunResult, changedPath?: string): RunHistoryEntry {
+		const entry: RunHistoryEntry = {
+			timestamp: Date.now() - result.durationMs,
+			scriptPath,
+			trigger,
+			changedPath,
+			durationMs: result.durationMs,
+			exitCode: result.exitCode,
+			signal: result.signal,
+			failed: Boolean(result.error),
+			stdout: truncate(result.stdout),
+			stderr: truncate(result.stderr)
+		};
+		const entries = [entry, ...this.get(actionId)].slice(0, maxHistoryEntries);
+		this.entries.set(actionId, entries);
+		this.save(actionId, entries);
+		return entry;
+	}
+
+	/**
+	 * Returns the runs of the action, newest first.
+	 */
+	get(actionId: string): RunHistoryEntry[] {
+		let entries = this.entries.get(actionId);
+		if (!entries) {
+			entries = this.load(actionId);
+			this.entries.set(actionId, entries);
+		}
+		return entries;
+	}
+
+	find(actionId: string, timestamp: number): RunHistoryEntry | undefined {
+		return this.get(actionId).find(entry => entry.timestamp === timestamp);
+	}
+
+	clear(actionId: string) {
+		this.entries.set(actionId, []);
+		this.save(actionId, []);
+	}
+
+	private load(actionId: string): RunHistoryEntry[] {
+		try {
+			const entries = JSON.parse(fs.readFileSync(getHistoryFile(actionId), "utf-8"));
+			return Array.isArray(entries) ? entries : [];
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				logger.warn(`could not read the run history of action ${actionId}: ${error}`);
+			}
+			return [];
+		}
+	}
+
+	private save(actionId: string, entries: RunHistoryEntry[]) {
+		const previous = this.writes.get(actionId) ?? Promise.resolve();
+		const write = previous.then(async () => {
+			try {
+				await fs.promises.mkdir(historyFolder, { recursive: true });
+				await fs.promises.writeFile(getHistoryFile(actionId), JSON.stringify(entries));
+			} catch (error) {
+				logger.warn(`could not write the run history of action ${actionId}: ${error}`);
+			}
+		});
+		this.writes.set(actionId, write);
+		write.then(() => {
+			if (this.writes.get(actionId) === write) {
+				this.writes.delete(actionId);
+			}
+		});
+	}
+}
+
+function getHistoryFile(actionId: string): string {
+	// action ids are generated by Stream Deck, the replacement only guards against path separators
+	return path.join(historyFolder, `${actionId.replace(/[^\w-]/g, "_")}.json`);
+}
+
+function truncate(output: string): string {
+	return output.length > maxOutputLength ? `…${output.slice(-maxOutputLength)}` : output;
+}
+
+export const runHistory = new RunHistoryStore();
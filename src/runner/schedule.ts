@@ -0,0 +1,265 @@
+/**
+ * Settings that decide when a service runs its script.
+ */
+export type ScheduleSettings = {
+	/**
+	 * Seconds between two runs in interval mode.
+	 */
+	interval?: number | string;
+	/**
+	 * Cron expression with the fields minute, hour, day of month, month and day of week, e.g. `0 9 * * mon-fri`.
+	 */
+	cron?: string;
+	/**
+	 * Runs the script right away when the service is started instead of waiting for the first scheduled time.
+	 */
+	runOnStart?: boolean;
+	/**
+	 * Maximum random delay in seconds added to every scheduled run, so many keys don't fire at the same moment.
+	 */
+	jitter?: number | string;
+	/**
+	 * Time window the service runs in, e.g. `08:00-18:00`; windows like `22:00-06:00` span midnight. Runs outside are skipped.
+	 */
+	activeHours?: string;
+};
+
+/**
+ * A parsed cron expression, every field holds the allowed values.
+ */
+export type CronSchedule = {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	/**
+	 * Cron matches either field when both day of month and day of week are restricted.
+	 */
+	daysOfMonthRestricted: boolean;
+	daysOfWeekRestricted: boolean;
+};
+
+type ActiveHours = {
+	start: number;
+	end: number;
+};
+
+const cronMacros: { [key: string]: string } = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *"
+};
+
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Cron lookups give up after this many days without a match, e.g. for `0 0 31 2 *`.
+ */
+const maxLookaheadDays = 366 * 5;
+
+/**
+ * Parses a cron expression. Supports `*`, lists, ranges, steps, month and day names and macros like `@daily`.
+ * Throws an error describing the invalid field.
+ */
+export function parseCron(expression: string): CronSchedule {
+	const normalized = cronMacros[expression.trim().toLowerCase()] ?? expression.trim();
+	const fields = normalized.split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+	}
+	const daysOfWeek = parseCronField(fields[4], 0, 7, dayNames);
+	if (daysOfWeek.has(7)) {
+		// 7 is an alias for sunday
+		daysOfWeek.delete(7);
+		daysOfWeek.add(0);
+	}
+	return {
+		minutes: parseCronField(fields[0], 0, 59),
+		hours: parseCronField(fields[1], 0, 23),
+		daysOfMonth: parseCronField(fields[2], 1, 31),
+		months: parseCronField(fields[3], 1, 12, monthNames, 1),
+		daysOfWeek,
+		daysOfMonthRestricted: fields[2] !== "*",
+		daysOfWeekRestricted: fields[4] !== "*"
+	};
+}
+
+/**
+ * Returns the first time after `after` (exclusive, at minute precision) the cron schedule matches.
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date | undefined {
+	const time = new Date(after.getTime());
+	time.setSeconds(0, 0);
+	time.setMinutes(time.getMinutes() + 1);
+	const limit = after.getTime() + maxLookaheadDays * 24 * 60 * 60 * 1000;
+
+	while (time.getTime() <= limit) {
+		if (!schedule.months.has(time.getMonth() + 1)) {
+			time.setMonth(time.getMonth() + 1, 1);
+			time.setHours(0, 0);
+			continue;
+		}
+		if (!matchesDay(schedule, time)) {
+			time.setDate(time.getDate() + 1);
+			time.setHours(0, 0);
+			continue;
+		}
+		if (!schedule.hours.has(time.getHours())) {
+			time.setHours(time.getHours() + 1, 0);
+			continue;
+		}
+		if (!schedule.minutes.has(time.getMinutes())) {
+			time.setMinutes(time.getMinutes() + 1);
+			continue;
+		}
+		return time;
+	}
+	return undefined;
+}
+
+/**
+ * Returns the next scheduled run after `after`, without jitter: the next cron match in cron mode, otherwise one interval later.
+ * A run that falls outside the active hours moves to the start of the next window in interval mode,
+ * in cron mode the search continues from there.
+ */
+export function getNextRunTime(settings: ScheduleSettings, mode: "interval" | "cron", after: Date): Date | undefined {
+	const activeHours = parseActiveHours(settings.activeHours);
+	const cron = mode === "cron" ? parseCron(settings.cron ?? "") : undefined;
+	const intervalMs = getIntervalSeconds(settings.interval) * 1000;
+
+	let time = after;
+	// bounded, so a cron expression that never matches within the window gives up
+	for (let attempt = 0; attempt < 10000; attempt++) {
+		const next = cron ? getNextCronTime(cron, time) : new Date(time.getTime() + intervalMs);
+		if (!next || !activeHours || isWithinActiveHours(next, activeHours)) {
+			return next;
+		}
+		const windowStart = getNextWindowStart(next, activeHours);
+		if (!cron) {
+			return windowStart;
+		}
+		// cron lookups start after the given minute, the window start itself is a candidate
+		time = new Date(windowStart.getTime() - 60 * 1000);
+	}
+	return undefined;
+}
+
+/**
+ * Lists the next `count` scheduled runs, for the preview in the property inspector.
+ */
+export function getNextRunTimes(settings: ScheduleSettings, mode: "interval" | "cron", from: Date, count: number): Date[] {
+	const times: Date[] = [];
+	let time: Date | undefined = from;
+	while (times.length < count && (time = getNextRunTime(settings, mode, time))) {
+		times.push(time);
+	}
+	return times;
+}
+
+/**
+ * Checks whether the time is within the active hours, settings without active hours are always active.
+ */
+export function isActiveAt(settings: ScheduleSettings, time: Date): boolean {
+	return isWithinActiveHours(time, parseActiveHours(settings.activeHours));
+}
+
+/**
+ * Random delay in milliseconds within the configured jitter.
+ */
+export function getJitterMs(settings: ScheduleSettings): number {
+	const jitter = Number(settings.jitter);
+	return Number.isFinite(jitter) && jitter > 0 ? Math.round(Math.random() * jitter * 1000) : 0;
+}
+
+/**
+ * Seconds between runs in interval mode, 10 when the setting is empty or invalid.
+ */
+export function getIntervalSeconds(value: ScheduleSettings["interval"]): number {
+	const interval = Number(value);
+	return value !== undefined && value !== "" && Number.isFinite(interval) && interval > 0 ? interval : 10;
+}
+
+function parseCronField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+	const values = new Set<number>();
+	for (const part of field.toLowerCase().split(",")) {
+		const [range, stepText] = part.split("/");
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`invalid step in "${field}"`);
+		}
+
+		let start = min;
+		let end = max;
+		if (range !== "*") {
+			const [startText, endText] = range.split("-");
+			start = parseCronValue(startText, names, nameOffset);
+			end = endText === undefined ? (stepText === undefined ? start : max) : parseCronValue(endText, names, nameOffset);
+		}
+		if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) {
+			throw new Error(`invalid value "${part}", allowed are ${min}-${max}`);
+		}
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+	return values;
+}
+
+function parseCronValue(value: string, names: string[], nameOffset: number): number {
+	const nameIndex = names.indexOf(value);
+	if (nameIndex >= 0) {
+		return nameIndex + nameOffset;
+	}
+	return /^\d+$/.test(value) ? Number(value) : NaN;
+}
+
+function matchesDay(schedule: CronSchedule, time: Date): boolean {
+	const dayOfMonth = schedule.daysOfMonth.has(time.getDate());
+	const dayOfWeek = schedule.daysOfWeek.has(time.getDay());
+	if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+		return dayOfMonth || dayOfWeek;
+	}
+	return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Parses `HH:MM-HH:MM` into minutes of the day. Returns `undefined` for empty or invalid windows.
+ */
+function parseActiveHours(value: string | undefined): ActiveHours | undefined {
+	const match = value?.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+	if (!match) {
+		return undefined;
+	}
+	const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(Number);
+	return { start: startHours * 60 + startMinutes, end: endHours * 60 + endMinutes };
+}
+
+/**
+ * Returns the first start of the active hours after `time`.
+ */
+function getNextWindowStart(time: Date, activeHours: ActiveHours): Date {
+	const start = new Date(time.getTime());
+	start.setHours(Math.floor(activeHours.start / 60), activeHours.start % 60, 0, 0);
+	if (start.getTime() <= time.getTime()) {
+		start.setDate(start.getDate() + 1);
+		start.setHours(Math.floor(activeHours.start / 60), activeHours.start % 60, 0, 0);
+	}
+	return start;
+}
+
+function isWithinActiveHours(time: Date, activeHours: ActiveHours | undefined): boolean {
+	if (!activeHours) {
+		return true;
+	}
+	const minutes = time.getHours() * 60 + time.getMinutes();
+	if (activeHours.start <= activeHours.end) {
+		return minutes >= activeHours.start && minutes < activeHours.end;
+	}
+	return minutes >= activeHours.start || minutes < activeHours.end;
+}
@@ -0,0 +1,199 @@
+import * as fs from "fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { logger } from "./logger";
+
+/**
+ * Folder of the bundled `streamdeck` python module. The plugin runs from `bin/plugin.js`, the module ships in `python/` next to it.
+ */
+export const helperLibraryPath = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "python");
+
+/**
+ * Settings that control how the script is invoked, shared by all actions that spawn python processes.
+ */
+export type ScriptEnvironmentSettings = {
+	/**
+	 * Arguments passed to the script, split like a shell would, e.g. `--host "my server" -v`.
+	 */
+	args?: string;
+	/**
+	 * Working directory of the script, defaults to the folder of the script.
+	 */
+	cwd?: string;
+	/**
+	 * Extra environment variables, one `KEY=value` per line.
+	 */
+	env?: string;
+	/**
+	 * Path to a `.env` file, relative paths are resolved against the working directory.
+	 */
+	envFile?: string;
+};
+
+/**
+ * Information about the key that triggered the script, passed to the script as `STREAMDECK_*` variables.
+ */
+export type ScriptContext = {
+	actionId: string;
+	manifestId: string;
+	deviceId: string;
+	deviceName?: string;
+	controller?: string;
+	column?: number;
+	row?: number;
+	keyName?: string;
+	/**
+	 * What started the run, e.g. `keyDown`, `dialRotate`, `interval` or `fileChange`.
+	 */
+	trigger?: string;
+	/**
+	 * Dial rotation since the last run, negative for counter-clockwise.
+	 */
+	ticks?: number;
+	/**
+	 * The file that changed, for runs started by a file watch.
+	 */
+	changedPath?: string;
+};
+
+/**
+ * Everything `spawn` needs besides the interpreter and the script path.
+ */
+export type ScriptInvocation = {
+	args: string[];
+	cwd: string;
+	env: NodeJS.ProcessEnv;
+};
+
+/**
+ * Builds arguments, working directory and environment for a script run.
+ * Variables are layered: plugin environment < `.env` file < settings < `STREAMDECK_*` context.
+ * The folder of the bundled `streamdeck` module is put in front of `PYTHONPATH`.
+ */
+export function buildScriptInvocation(settings: ScriptEnvironmentSettings, scriptPath: string, context?: ScriptContext): ScriptInvocation {
+	const cwd = settings.cwd?.trim() ? settings.cwd.trim() : path.dirname(scriptPath);
+	const env: NodeJS.ProcessEnv = { ...process.env };
+
+	if (settings.envFile?.trim()) {
+		Object.assign(env, readEnvFile(path.resolve(cwd, settings.envFile.trim())));
+	}
+	if (settings.env) {
+		Object.assign(env, parseEnv(settings.env));
+	}
+	if (context) {
+		Object.assign(env, getContextVariables(context));
+	}
+	env.PYTHONPATH = env.PYTHONPATH ? `${helperLibraryPath}${path.delimiter}${env.PYTHONPATH}` : helperLibraryPath;
+	// tells the module that the plugin answers its calls on stdin
+	env.STREAMDECK_RPC = "1";
+
+	return {
+		args: splitArgs(settings.args ?? ""),
+		cwd,
+		env
+	};
+}
+
+/**
+ * Splits an argument string like a shell would: whitespace separates arguments, single and double quotes group them.
+ */
+export function splitArgs(value: string): string[] {
+	const args: string[] = [];
+	let current = "";
+	let quote: string | undefined;
+	let hasArg = false;
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+		if (quote) {
+			if (char === quote) {
+				quote = undefined;
+			} else if (char === "\\" && quote === "\"" && value[i + 1] === "\"") {
+				current += "\"";
+				i++;
+			} else {
+				current += char;
+			}
+		} else if (char === "\"" || char === "'") {
+			quote = char;
+			hasArg = true;
+		} else if (/\s/.test(char)) {
+			if (hasArg) {
+				args.push(current);
+				current = "";
+				hasArg = false;
+			}
+		} else {
+			current += char;
+			hasArg = true;
+		}
+	}
+	if (hasArg) {
+		args.push(current);
+	}
+	return args;
+}
+
+/**
+ * Parses `KEY=value` lines as used in `.env` files. Empty lines, comments and an `export ` prefix are ignored,
+ * surrounding quotes are removed from the value.
+ */
+export function parseEnv(content: string): Record<string, string> {
+	const variables: Record<string, string> = {};
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.trim().replace(/^export\s+/, "");
+		if (!line || line.startsWith("#")) {
+			continue;
+		}
+		const separator = line.indexOf("=");
+		if (separator <= 0) {
+			continue;
+		}
+		const key = line.substring(0, separator).trim();
+		let value = line.substring(separator + 1).trim();
+		if (value.length >= 2 && (value[0] === "\"" || value[0] === "'") && value.endsWith(value[0])) {
+			value = value.substring(1, value.length - 1);
+		}
+		variables[key] = value;
+	}
+	return variables;
+}
+
+function readEnvFile(envFile: string): Record<string, string> {
+	try {
+		return parseEnv(fs.readFileSync(envFile, "utf-8"));
+	} catch (error) {
+		logger.warn(`Could not read env file ${envFile}: ${error}`);
+		return {};
+	}
+}
+
+function getContextVariables(context: ScriptContext): Record<string, string> {
+	const variables: Record<string, string> = {
+		STREAMDECK_ACTION_ID: context.actionId,
+		STREAMDECK_ACTION: context.manifestId,
+		STREAMDECK_DEVICE_ID: context.deviceId
+	};
+	if (context.deviceName) {
+		variables.STREAMDECK_DEVICE_NAME = context.deviceName;
+	}
+	if (context.controller) {
+		variables.STREAMDECK_CONTROLLER = context.controller;
+	}
+	if (context.column !== undefined && context.row !== undefined) {
+		variables.STREAMDECK_COLUMN = String(context.column);
+		variables.STREAMDECK_ROW = String(context.row);
+	}
+	if (context.keyName) {
+		variables.STREAMDECK_KEY_NAME = context.keyName;
+	}
+	if (context.trigger) {
+		variables.STREAMDECK_TRIGGER = context.trigger;
+	}
+	if (context.ticks !== undefined) {
+		variables.STREAMDECK_TICKS = String(context.ticks);
+	}
+	if (context.changedPath) {
+		variables.STREAMDECK_CHANGED_PATH = context.changedPath;
+	}
+	return variables;
+}
@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import * as path from "node:path";
+import { logger } from "./logger";
+
+/**
+ * Optional file in a script folder that gives its scripts titles and icons.
+ */
+export const folderManifestName = "scripts.json";
+
+/**
+ * What the folder manifest can say about a script, keyed by file name:
+ *
+ * ```json
+ * { "backup.py": { "title": "Backup", "icon": "icons/backup.png" }, "helpers.py": { "hidden": true } }
+ * ```
+ */
+export type FolderManifestEntry = {
+	title?: string;
+	/**
+	 * Image shown while the script is selected, relative to the folder.
+	 */
+	icon?: string;
+	hidden?: boolean;
+};
+
+/**
+ * A script of a folder, as the browser shows it.
+ */
+export type FolderScript = {
+	path: string;
+	title: string;
+	icon?: string;
+};
+
+/**
+ * Lists the `.py` files of the folder, without subfolders, sorted by title. Titles and icons come from the
+ * {@link folderManifestName} of the folder, scripts without entry are titled by their file name without extension.
+ */
+export function listFolderScripts(folder: string): FolderScript[] {
+	let files: string[];
+	try {
+		files = fs.readdirSync(folder).filter(file => file.toLowerCase().endsWith(".py") && fs.statSync(path.join(folder, file)).isFile());
+	} catch (error) {
+		logger.warn(`cannot list scripts of ${folder}: ${error}`);
+		return [];
+	}
+
+	const manifest = readFolderManifest(folder);
+	return files
+		.filter(file => !manifest[file]?.hidden)
+		.map(file => {
+			const entry = manifest[file] ?? {};
+			return {
+				path: path.join(folder, file),
+				title: entry.title?.trim() || path.parse(file).name,
+				icon: entry.icon ? path.resolve(folder, entry.icon) : undefined
+			};
+		})
+		.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+function readFolderManifest(folder: string): Record<string, FolderManifestEntry> {
+	const manifestPath = path.join(folder, folderManifestName);
+	if (!fs.existsSync(manifestPath)) {
+		return {};
+	}
+	try {
+		const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+		return manifest && typeof manifest === "object" && !Array.isArray(manifest) ? manifest : {};
+	} catch (error) {
+		logger.warn(`ignoring invalid ${manifestPath}: ${error}`);
+		return {};
+	}
+}
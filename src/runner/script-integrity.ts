@@ -0,0 +1,78 @@
+import { createHash } from "node:crypto";
+import * as fs from "fs";
+import * as path from "node:path";
+import { getInterpreterKind, InterpreterSettings, normalizeVenvPath } from "./interpreter";
+import { parseEnv, ScriptEnvironmentSettings } from "./script-environment";
+
+/**
+ * Environment variables that make python load code from the paths they name.
+ */
+const codePathVariables = ["PYTHONPATH", "PYTHONHOME", "PYTHONSTARTUP", "PYTHONUSERBASE"];
+
+/**
+ * Returns the SHA-256 of the script content as hex string, or `undefined` when the file can't be read.
+ */
+export function hashScript(scriptPath: string): string | undefined {
+	try {
+		return createHash("sha256").update(fs.readFileSync(scriptPath)).digest("hex");
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Splits allowed root folders given one per line, empty lines are left out.
+ */
+export function parseRoots(roots: string | undefined): string[] {
+	return (roots ?? "").split(/\r?\n/).map(root => root.trim()).filter(root => root);
+}
+
+/**
+ * Checks whether the script lies inside one of the root folders. Symbolic links are resolved first,
+ * so a link inside a root can't point to a script outside of it.
+ */
+export function isInsideRoots(scriptPath: string, roots: string[]): boolean {
+	const script = realPath(scriptPath);
+	return roots.some(root => {
+		const relative = path.relative(realPath(root), script);
+		return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+	});
+}
+
+/**
+ * Lists what a run loads code from besides the script: the interpreter selected by path or virtual environment, the `.env` file
+ * and the paths in variables like `PYTHONPATH` the settings or the `.env` file set. Relative paths start at the working directory.
+ */
+export function getLaunchPaths(settings: InterpreterSettings & ScriptEnvironmentSettings, scriptPath: string): string[] {
+	const cwd = settings.cwd?.trim() || path.dirname(scriptPath);
+	const paths: string[] = [];
+	const kind = getInterpreterKind(settings);
+	if (kind === "venv" && settings.venvPath?.trim()) {
+		paths.push(normalizeVenvPath(settings.venvPath.trim()));
+	} else if (kind === "path" && settings.pythonPath?.trim()) {
+		paths.push(settings.pythonPath.trim());
+	}
+
+	let variables = parseEnv(settings.env ?? "");
+	const envFile = settings.envFile?.trim();
+	if (envFile) {
+		paths.push(envFile);
+		try {
+			variables = { ...parseEnv(fs.readFileSync(path.resolve(cwd, envFile), "utf-8")), ...variables };
+		} catch {
+			// the run reports the missing file
+		}
+	}
+	for (const name of codePathVariables) {
+		paths.push(...(variables[name] ?? "").split(path.delimiter).map(entry => entry.trim()).filter(entry => entry));
+	}
+	return paths.map(entry => path.resolve(cwd, entry));
+}
+
+function realPath(file: string): string {
+	try {
+		return fs.realpathSync(file);
+	} catch {
+		return path.resolve(file);
+	}
+}
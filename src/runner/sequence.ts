@@ -0,0 +1,181 @@
+import { EventEmitter } from "node:events";
+import { InterpreterSettings } from "./interpreter";
+import { logger } from "./logger";
+import { terminateProcess } from "./process-tracker";
+import { PythonRun, RunResult } from "./python-run";
+import { RpcHandlers } from "./rpc-channel";
+import { buildScriptInvocation, ScriptContext, ScriptEnvironmentSettings } from "./script-environment";
+
+/**
+ * How a step receives the output of the step before it.
+ * - `none`: not at all
+ * - `stdin`: as its standard input
+ * - `argument`: as its last argument
+ */
+export type StepInput = "none" | "stdin" | "argument";
+
+/**
+ * What happens to the remaining steps when one fails.
+ */
+export type FailurePolicy = "stop" | "continue";
+
+/**
+ * One script of a sequence, with its own interpreter and environment.
+ */
+export type SequenceStep = InterpreterSettings & ScriptEnvironmentSettings & {
+	path?: string;
+	/**
+	 * Shown on the key while the step runs, defaults to the file name.
+	 */
+	name?: string;
+	input?: StepInput;
+	/**
+	 * Adds the shared environment variables of the global settings, enabled unless set to `false`.
+	 */
+	inheritEnv?: boolean;
+};
+
+export type SequenceRequest = {
+	steps: SequenceStep[];
+	onFailure?: FailurePolicy;
+	/**
+	 * Seconds after which a single step is killed and counts as failed, empty or 0 disables the timeout.
+	 */
+	stepTimeout?: number | string;
+	context?: ScriptContext;
+	rpcHandlers?: RpcHandlers;
+};
+
+/**
+ * Outcome of a finished sequence.
+ */
+export type SequenceResult = {
+	/**
+	 * Results of the steps that ran, in order. Steps without script are skipped and have no result.
+	 */
+	results: RunResult[];
+	failed: number;
+	aborted: boolean;
+	/**
+	 * Output of the last step that succeeded.
+	 */
+	output: string;
+};
+
+export interface SequenceRun {
+	/**
+	 * A step is about to start, `index` counts from 0.
+	 */
+	on(event: "step", listener: (index: number, step: SequenceStep) => void): this;
+	/**
+	 * A step finished, `result.error` is set when it failed.
+	 */
+	on(event: "stepExit", listener: (index: number, step: SequenceStep, result: RunResult) => void): this;
+	on(event: "done", listener: (result: SequenceResult) => void): this;
+}
+
+/**
+ * Runs the scripts of a sequence one after the other, each with the interpreter and environment of its step:
+ *
+ * ```ts
+ * const sequence = new SequenceRun({ steps, onFailure: "continue" });
+ * sequence.on("step", index => ...).on("done", result => ...);
+ * sequence.start();
+ * ```
+ */
+export class SequenceRun extends EventEmitter {
+	private current?: PythonRun;
+	private results: RunResult[] = [];
+	private failed = 0;
+	private aborted = false;
+	private output = "";
+	private started = false;
+
+	constructor(readonly request: SequenceRequest) {
+		super();
+	}
+
+	/**
+	 * Starts the first step. Returns `false` when the sequence was already started.
+	 */
+	start(): boolean {
+		if (this.started) {
+			return false;
+		}
+		this.started = true;
+		this.runStep(0);
+		return true;
+	}
+
+	/**
+	 * Kills the running step, the remaining steps are dropped.
+	 */
+	abort() {
+		this.aborted = true;
+		const child = this.current?.process;
+		if (child) {
+			terminateProcess(child);
+		}
+	}
+
+	private runStep(index: number) {
+		const step = this.request.steps[index];
+		if (!step || this.aborted) {
+			this.emit("done", { results: this.results, failed: this.failed, aborted: this.aborted, output: this.output });
+			return;
+		}
+		if (!step.path) {
+			logger.warn(`step ${index + 1} of the sequence has no script - skipping it`);
+			this.runStep(index + 1);
+			return;
+		}
+
+		const invocation = buildScriptInvocation(step, step.path, this.request.context);
+		const previousOutput = this.output.trim();
+		if (index > 0 && step.input === "argument") {
+			invocation.args.push(previousOutput);
+		}
+		const run = new PythonRun({
+			...step,
+			scriptPath: step.path,
+			invocation,
+			rpcHandlers: this.request.rpcHandlers,
+			input: index > 0 && step.input === "stdin" ? previousOutput : undefined
+		});
+		this.current = run;
+
+		let timedOut = false;
+		const timeoutSeconds = Number(this.request.stepTimeout);
+		const timer = Number.isFinite(timeoutSeconds) && timeoutSeconds > 0 ? setTimeout(() => {
+			logger.warn(`step ${index + 1} of the sequence exceeded the timeout of ${timeoutSeconds}s - killing it`);
+			timedOut = true;
+			if (run.process) {
+				terminateProcess(run.process);
+			}
+		}, timeoutSeconds * 1000) : undefined;
+
+		run.on("stderr", (chunk: string) => logger.warn(`step ${index + 1} stderr: ${chunk.trim()}`));
+		run.on("exit", (result: RunResult) => {
+			clearTimeout(timer);
+			this.current = undefined;
+			if (timedOut) {
+				result.error = { title: "Python\nTimeout", message: `step ${index + 1} timed out after ${timeoutSeconds}s` };
+			}
+			this.results.push(result);
+			this.emit("stepExit", index, step, result);
+
+			if (this.aborted) {
+				this.runStep(this.request.steps.length);
+			} else if (result.error) {
+				this.failed++;
+				this.runStep(this.request.onFailure === "continue" ? index + 1 : this.request.steps.length);
+			} else {
+				this.output = result.stdout;
+				this.runStep(index + 1);
+			}
+		});
+
+		this.emit("step", index, step);
+		run.start();
+	}
+}
@@ -0,0 +1,58 @@
+import { Action, PayloadObject } from "@elgato/streamdeck";
+import { RpcError, rpcErrorCodes, RpcHandlers } from "./runner/rpc-channel";
+import { applyScriptOutput } from "./script-output";
+
+/**
+ * Settings scripts wrote with `set_settings`, keyed by action id. Events the plugin keeps, like the one a service was started with,
+ * still carry the settings from before, so later runs read them from here until the key receives its settings again.
+ */
+const writtenSettings = new Map<string, object>();
+
+/**
+ * Methods the bundled `streamdeck` python module calls for the key that runs the script.
+ * `settings` are the stored settings of the key, as the event that started the run carried them.
+ */
+export function createScriptApi<T extends PayloadObject<T>>(action: Action<T>, settings: T): RpcHandlers {
+	const getSettings = () => writtenSettings.get(action.id) ?? settings;
+	return {
+		set_title: params => applyScriptOutput(action, { title: String(getParam(params, "title") ?? "") }),
+		set_image: params => {
+			const image = getParam(params, "image");
+			if (typeof image !== "string" || !image) {
+				throw new RpcError(rpcErrorCodes.invalidParams, "image has to be a path or data URI");
+			}
+			return applyScriptOutput(action, { image });
+		},
+		set_state: params => {
+			const state = Number(getParam(params, "state"));
+			if (state !== 0 && state !== 1) {
+				throw new RpcError(rpcErrorCodes.invalidParams, "state has to be 0 or 1");
+			}
+			return applyScriptOutput(action, { state });
+		},
+		show_ok: () => action.showOk(),
+		show_alert: () => action.showAlert(),
+		get_settings: () => getSettings(),
+		set_settings: async params => {
+			const changes = getParam(params, "settings");
+			if (!changes || typeof changes !== "object" || Array.isArray(changes)) {
+				throw new RpcError(rpcErrorCodes.invalidParams, "settings have to be an object");
+			}
+			const updated = getParam(params, "replace") ? changes : { ...getSettings(), ...changes };
+			writtenSettings.set(action.id, updated);
+			await action.setSettings(updated as T);
+			return updated;
+		}
+	};
+}
+
+/**
+ * Drops the settings scripts wrote for the key, called when the key receives its current settings from Stream Deck.
+ */
+export function forgetScriptSettings(actionId: string) {
+	writtenSettings.delete(actionId);
+}
+
+function getParam(params: unknown, name: string): unknown {
+	return params && typeof params === "object" ? (params as Record<string, unknown>)[name] : undefined;
+}
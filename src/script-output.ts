@@ -0,0 +1,94 @@
+import streamDeck, { Action, PayloadObject } from "@elgato/streamdeck";
+
+/**
+ * Structured output a script can print as a JSON object to control its key, e.g.
+ * `{"title": "42%", "image": "/path/to/icon.png", "state": 1, "alert": "ok"}`.
+ * Every field is optional, fields that are missing leave the key untouched.
+ */
+export type ScriptOutput = {
+	title?: string;
+	image?: string;
+	state?: 0 | 1;
+	alert?: "ok" | "alert";
+	/**
+	 * Value shown on the touch strip of a dial.
+	 */
+	value?: string;
+	/**
+	 * Progress bar on the touch strip of a dial, in percent.
+	 */
+	progress?: number;
+};
+
+/**
+ * Tries to read the output of a script as a {@link ScriptOutput}.
+ * The whole output is parsed first, then its last line, so scripts can still print log lines before the JSON object.
+ * Returns `undefined` for plain text output, which keeps the value based handling in place.
+ */
+export function parseScriptOutput(output: string): ScriptOutput | undefined {
+	const lines = output.trim().split(/\r?\n/);
+	const candidates = [output.trim(), lines[lines.length - 1].trim()];
+	for (const candidate of candidates) {
+		if (!candidate.startsWith("{") || !candidate.endsWith("}")) {
+			continue;
+		}
+		try {
+			const parsed = JSON.parse(candidate);
+			if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+				return normalizeScriptOutput(parsed);
+			}
+		} catch {
+			// not JSON, try the next candidate
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Applies every field of the {@link ScriptOutput} to the key of the action.
+ */
+export async function applyScriptOutput<T extends PayloadObject<T>>(action: Action<T>, output: ScriptOutput): Promise<void> {
+	if (output.title !== undefined) {
+		await action.setTitle(output.title);
+	}
+	if (output.image !== undefined) {
+		await action.setImage(output.image);
+	}
+	if (output.state !== undefined) {
+		await action.setState(output.state);
+	}
+	if (output.alert === "ok") {
+		await action.showOk();
+	} else if (output.alert === "alert") {
+		await action.showAlert();
+	}
+}
+
+function normalizeScriptOutput(raw: Record<string, unknown>): ScriptOutput {
+	const output: ScriptOutput = {};
+	if (raw.title !== undefined && raw.title !== null) {
+		output.title = String(raw.title);
+	}
+	if (typeof raw.image === "string" && raw.image.length > 0) {
+		output.image = raw.image;
+	}
+	const state = Number(raw.state);
+	if (raw.state !== undefined && (state === 0 || state === 1)) {
+		output.state = state;
+	} else if (raw.state !== undefined) {
+		streamDeck.logger.warn(`ignoring invalid state in script output: ${raw.state}`);
+	}
+	if (raw.value !== undefined && raw.value !== null) {
+		output.value = String(raw.value);
+	}
+	const progress = Number(raw.progress);
+	if (raw.progress !== undefined && Number.isFinite(progress)) {
+		output.progress = Math.min(100, Math.max(0, progress));
+	}
+	if (raw.alert === "ok" || raw.alert === true || raw.alert === "success") {
+		output.alert = "ok";
+	} else if (raw.alert === "alert" || raw.alert === "error" || raw.alert === "fail") {
+		output.alert = "alert";
+	}
+	return output;
+}
@@ -0,0 +1,212 @@
+import streamDeck, { Action, PayloadObject } from "@elgato/streamdeck";
+import * as path from "node:path";
+import { getGlobalSettings, resolveScriptPath } from "./global-settings";
+import { longPressMs } from "./runner/process-tracker";
+import { InterpreterSettings } from "./runner/interpreter";
+import { PythonError } from "./runner/python-errors";
+import { ScriptEnvironmentSettings } from "./runner/script-environment";
+import { getLaunchPaths, hashScript, isInsideRoots, parseRoots } from "./runner/script-integrity";
+
+/**
+ * Settings of a key that pins the content of its scripts.
+ */
+export type TrustSettings = {
+	/**
+	 * Pins the SHA-256 of every script of the key when it is configured. A script that changed afterwards only runs
+	 * once the change is confirmed by holding the key.
+	 */
+	pinScripts?: boolean;
+	/**
+	 * The pinned hashes, keyed by the resolved absolute script path, so storing a script path relative to the scripts root keeps its pin.
+	 */
+	pinnedHashes?: Record<string, string>;
+};
+
+/**
+ * What {@link ScriptTrust.inspect} found out about a script.
+ */
+export type TrustStatus = {
+	allowed: boolean;
+	/**
+	 * The script and what else the run loads code from, like the interpreter, that are outside the allowed roots.
+	 */
+	blocked: string[];
+	/**
+	 * `off` without pinning, `missing` when the script can't be read. Scripts are only read and hashed with pinning enabled.
+	 */
+	pin: "off" | "matches" | "changed" | "missing";
+	hash?: string;
+};
+
+/**
+ * The resolved settings a run is started with, the interpreter and environment they select are checked as well.
+ */
+type LaunchSettings = InterpreterSettings & ScriptEnvironmentSettings;
+
+type TrustEvent<T extends PayloadObject<T>> = {
+	action: Action<T>;
+	payload: { settings: T };
+};
+
+/**
+ * Guards the execution path: scripts outside the allowed roots of the global settings don't run, neither do scripts whose interpreter
+ * path, virtual environment, `.env` file or `PYTHONPATH` lie outside of them, nor pinned scripts whose content changed until
+ * the change is confirmed with a long press or from the property inspector.
+ */
+class ScriptTrust {
+	/**
+	 * Pinned scripts that changed, keyed by action id, with their current hash by script path.
+	 */
+	private changed = new Map<string, Map<string, string>>();
+
+	/**
+	 * Presses that can confirm the changed scripts of the key, keyed by action id.
+	 */
+	private presses = new Map<string, { timer: NodeJS.Timeout; confirmed: boolean }>();
+
+	/**
+	 * Checks whether the script, given as resolved path, may run. Returns the problem to show on the key, or `undefined`.
+	 */
+	check(actionId: string, settings: TrustSettings, scriptPath: string, launch: LaunchSettings): PythonError | undefined {
+		const status = this.inspect(settings, scriptPath, launch);
+		if (!status.allowed) {
+			const message = `${status.blocked.join(", ")} outside the allowed script folders`;
+			streamDeck.logger.warn(`not running ${scriptPath}: ${message}`);
+			return { errorClass: "ScriptNotAllowed", title: status.blocked[0] === scriptPath ? "Script\nNot Allowed" : "Path\nNot Allowed", message };
+		}
+
+		const changes = this.changed.get(actionId);
+		if (status.pin !== "changed" || !status.hash) {
+			changes?.delete(scriptPath);
+			if (changes?.size === 0) {
+				this.changed.delete(actionId);
+			}
+			return undefined;
+		}
+		streamDeck.logger.warn(`${scriptPath} changed since it was pinned - waiting for confirmation`);
+		this.changed.set(actionId, (changes ?? new Map()).set(scriptPath, status.hash));
+		return { errorClass: "ScriptChanged", title: "Script\nChanged", message: `${scriptPath} changed since it was pinned, hold the key to trust the new version` };
+	}
+
+	/**
+	 * Reports whether the script and what its run loads code from are allowed and whether the script matches its pinned hash,
+	 * without remembering anything.
+	 */
+	inspect(settings: TrustSettings, scriptPath: string, launch: LaunchSettings): TrustStatus {
+		const roots = parseRoots(getGlobalSettings().allowedRoots).map(root => resolveScriptPath(root) ?? root);
+		const blocked = roots.length === 0 ? [] : [scriptPath, ...getLaunchPaths(launch, scriptPath)].filter(file => !isInsideRoots(file, roots));
+		const allowed = blocked.length === 0;
+		if (!settings.pinScripts) {
+			return { allowed, blocked, pin: "off" };
+		}
+		const hash = hashScript(scriptPath);
+		const pinned = settings.pinnedHashes?.[scriptPath];
+		if (!hash) {
+			return { allowed, blocked, pin: "missing" };
+		}
+		if (!pinned) {
+			return { allowed, blocked, pin: "off", hash };
+		}
+		return { allowed, blocked, pin: pinned === hash ? "matches" : "changed", hash };
+	}
+
+	/**
+	 * Pins the scripts of the key, given as configured, that have no pinned hash yet and drops the hashes of scripts the key no longer uses.
+	 * Without pinning enabled all pins are dropped, so enabling it again pins the scripts as they are then. Persists the result.
+	 * Nothing changes while a relative path can't be resolved yet, e.g. before the global settings arrived.
+	 */
+	pin<T extends TrustSettings & PayloadObject<T>>(ev: TrustEvent<T>, configuredPaths: (string | undefined)[]) {
+		const settings = ev.payload.settings;
+		const pinned: Record<string, string> = {};
+		if (settings.pinScripts) {
+			const scriptPaths = configuredPaths.map(configuredPath => configuredPath?.trim() && resolveScriptPath(configuredPath.trim())).filter(scriptPath => scriptPath) as string[];
+			if (scriptPaths.some(scriptPath => !path.isAbsolute(scriptPath))) {
+				return;
+			}
+			for (const scriptPath of new Set(scriptPaths)) {
+				const hash = settings.pinnedHashes?.[scriptPath] ?? hashScript(scriptPath);
+				if (hash) {
+					pinned[scriptPath] = hash;
+				}
+			}
+		}
+
+		const previous = settings.pinnedHashes ?? {};
+		const unchanged = Object.keys(pinned).length === Object.keys(previous).length && Object.entries(pinned).every(([key, hash]) => previous[key] === hash);
+		if (!unchanged) {
+			ev.payload.settings = { ...settings, pinnedHashes: pinned };
+			// as in savePins, requesting the settings again lets running services and the property inspector pick up the new pins
+			ev.action.setSettings(ev.payload.settings).then(() => ev.action.getSettings());
+		}
+		this.changed.delete(ev.action.id);
+	}
+
+	/**
+	 * Starts the confirming long press on a key with changed scripts. Returns `true` when the press belongs to the confirmation.
+	 */
+	handleKeyDown<T extends PayloadObject<T>>(ev: { action: Action<T> }): boolean {
+		if (!this.changed.has(ev.action.id)) {
+			return false;
+		}
+		const press = {
+			confirmed: false,
+			timer: setTimeout(() => {
+				press.confirmed = true;
+				this.confirm(ev.action);
+			}, longPressMs)
+		};
+		this.presses.set(ev.action.id, press);
+		return true;
+	}
+
+	/**
+	 * Ends the confirming press, a short press shows the warning again. Returns `true` when the press belonged to the confirmation.
+	 */
+	handleKeyUp<T extends PayloadObject<T>>(ev: { action: Action<T> }): boolean {
+		const press = this.presses.get(ev.action.id);
+		if (!press) {
+			return false;
+		}
+		this.presses.delete(ev.action.id);
+		clearTimeout(press.timer);
+		if (!press.confirmed) {
+			ev.action.showAlert();
+		}
+		return true;
+	}
+
+	/**
+	 * Pins the current version of the changed scripts of the key.
+	 */
+	async confirm<T extends PayloadObject<T>>(action: Action<T>) {
+		const changes = this.changed.get(action.id);
+		if (changes) {
+			this.changed.delete(action.id);
+			await this.savePins(action, changes);
+		}
+	}
+
+	/**
+	 * Pins the current version of a single script of the key, e.g. from the property inspector.
+	 */
+	async trust<T extends PayloadObject<T>>(action: Action<T>, scriptPath: string) {
+		const hash = hashScript(scriptPath);
+		if (!hash) {
+			await action.showAlert();
+			return;
+		}
+		this.changed.get(action.id)?.delete(scriptPath);
+		await this.savePins(action, new Map([[scriptPath, hash]]));
+	}
+
+	private async savePins<T extends PayloadObject<T>>(action: Action<T>, pins: Map<string, string>) {
+		const settings = await action.getSettings() as T & TrustSettings;
+		await action.setSettings({ ...settings, pinnedHashes: { ...settings.pinnedHashes, ...Object.fromEntries(pins) } });
+		// requesting the settings again emits didReceiveSettings, so the key, running services and the property inspector pick up the new pins
+		await action.getSettings();
+		streamDeck.logger.info(`trusting the current version of ${[...pins.keys()].join(", ")} for action ${action.id}`);
+		await action.showOk();
+	}
+}
+
+export const scriptTrust = new ScriptTrust();
@@ -0,0 +1,182 @@
+import streamDeck from "@elgato/streamdeck";
+import * as fs from "fs";
+import * as path from "node:path";
+
+/**
+ * Events besides key presses and schedules that run the script of a key.
+ */
+export type TriggerSettings = {
+	/**
+	 * File or folder whose changes run the script.
+	 */
+	watchPath?: string;
+	/**
+	 * Also watches the subfolders of `watchPath`.
+	 */
+	watchRecursive?: boolean;
+	runOnPluginStart?: boolean;
+	runOnDeviceConnect?: boolean;
+	/**
+	 * Runs the script whenever the key appears, e.g. after switching profile, page or folder.
+	 */
+	runOnAppear?: boolean;
+	/**
+	 * Milliseconds to wait for further events before the script runs, defaults to {@link defaultDebounceMs}.
+	 */
+	debounce?: number | string;
+};
+
+/**
+ * Names of the triggers, passed to the script as `STREAMDECK_TRIGGER`.
+ */
+export type TriggerName = "fileChange" | "pluginStart" | "deviceConnect" | "appear";
+
+/**
+ * Runs the script of the key. `changedPath` is set for file changes. Re-runs from the run history pass the trigger and the script
+ * of the original run, keys that only have one script can ignore it.
+ */
+export type TriggerCallback = (trigger: string, changedPath?: string, scriptPath?: string) => void;
+
+type RegisteredTrigger = {
+	deviceId: string;
+	settings: TriggerSettings;
+	run: TriggerCallback;
+	watcher?: fs.FSWatcher;
+	watchedPath?: string;
+	debounceTimer?: NodeJS.Timeout;
+};
+
+export const defaultDebounceMs = 500;
+
+/**
+ * Keeps the triggers of every visible key. Bursts of events, like a file being written in many chunks,
+ * are debounced per key, so the script runs once with the last event.
+ */
+class ScriptTriggers {
+	private triggers = new Map<string, RegisteredTrigger>();
+
+	/**
+	 * Actions that appeared since the plugin started, their first appearance counts as plugin start.
+	 */
+	private appearedActions = new Set<string>();
+
+	/**
+	 * Registers or updates the triggers of a key. The file watcher is only recreated when the watched path changed.
+	 */
+	register(actionId: string, deviceId: string, settings: TriggerSettings, run: TriggerCallback) {
+		const existing = this.triggers.get(actionId);
+		const trigger: RegisteredTrigger = { deviceId, settings, run, watcher: existing?.watcher, watchedPath: existing?.watchedPath, debounceTimer: existing?.debounceTimer };
+		this.triggers.set(actionId, trigger);
+
+		const watchPath = settings.watchPath?.trim() || undefined;
+		const watchKey = watchPath && `${watchPath}|${Boolean(settings.watchRecursive)}`;
+		if (trigger.watchedPath !== watchKey) {
+			this.closeWatcher(trigger);
+			if (watchPath) {
+				this.watch(actionId, trigger, watchPath, Boolean(settings.watchRecursive));
+				trigger.watchedPath = watchKey;
+			}
+		}
+	}
+
+	unregister(actionId: string) {
+		const trigger = this.triggers.get(actionId);
+		if (trigger) {
+			this.closeWatcher(trigger);
+			clearTimeout(trigger.debounceTimer);
+			this.triggers.delete(actionId);
+		}
+	}
+
+	/**
+	 * Called when the key appears: the first appearance after the plugin started fires `pluginStart`, later ones `appear`.
+	 */
+	appeared(actionId: string) {
+		const trigger = this.triggers.get(actionId);
+		const firstAppearance = !this.appearedActions.has(actionId);
+		this.appearedActions.add(actionId);
+		if (!trigger) {
+			return;
+		}
+		if (firstAppearance && trigger.settings.runOnPluginStart) {
+			this.fire(actionId, "pluginStart");
+		} else if (trigger.settings.runOnAppear) {
+			this.fire(actionId, "appear");
+		}
+	}
+
+	/**
+	 * Fires `deviceConnect` for the keys on the device that connected.
+	 */
+	deviceConnected(deviceId: string) {
+		for (const [actionId, trigger] of this.triggers) {
+			if (trigger.deviceId === deviceId && trigger.settings.runOnDeviceConnect) {
+				this.fire(actionId, "deviceConnect");
+			}
+		}
+	}
+
+	/**
+	 * Runs the script of the key right away, without debouncing. Returns `false` when the key has no script registered.
+	 */
+	runNow(actionId: string, name: string, changedPath?: string, scriptPath?: string): boolean {
+		const trigger = this.triggers.get(actionId);
+		trigger?.run(name, changedPath, scriptPath);
+		return Boolean(trigger);
+	}
+
+	private fire(actionId: string, name: TriggerName, changedPath?: string) {
+		const trigger = this.triggers.get(actionId);
+		if (!trigger) {
+			return;
+		}
+		clearTimeout(trigger.debounceTimer);
+		trigger.debounceTimer = setTimeout(() => {
+			trigger.debounceTimer = undefined;
+			streamDeck.logger.info(`trigger ${name} runs the script of action ${actionId}`);
+			// the latest registration holds the current settings
+			this.triggers.get(actionId)?.run(name, changedPath);
+		}, getDebounceMs(trigger.settings));
+	}
+
+	/**
+	 * A single file is watched through its folder, filtered on its name: editors that save by writing a new file and renaming it
+	 * over the old one would otherwise leave the watcher on the replaced file.
+	 */
+	private watch(actionId: string, trigger: RegisteredTrigger, watchPath: string, recursive: boolean) {
+		try {
+			if (fs.statSync(watchPath).isDirectory()) {
+				trigger.watcher = fs.watch(watchPath, { recursive }, (event, fileName) => {
+					this.fire(actionId, "fileChange", fileName ? path.join(watchPath, fileName.toString()) : watchPath);
+				});
+			} else {
+				const watchedName = path.basename(watchPath);
+				trigger.watcher = fs.watch(path.dirname(watchPath), (event, fileName) => {
+					if (!fileName || fileName.toString() === watchedName) {
+						this.fire(actionId, "fileChange", watchPath);
+					}
+				});
+			}
+			trigger.watcher.on("error", (error: Error) => {
+				streamDeck.logger.warn(`watching ${watchPath} failed: ${error.message}`);
+				this.closeWatcher(trigger);
+			});
+			streamDeck.logger.info(`watching ${watchPath} for action ${actionId}`);
+		} catch (error) {
+			streamDeck.logger.warn(`cannot watch ${watchPath}: ${error}`);
+		}
+	}
+
+	private closeWatcher(trigger: RegisteredTrigger) {
+		trigger.watcher?.close();
+		trigger.watcher = undefined;
+		trigger.watchedPath = undefined;
+	}
+}
+
+function getDebounceMs(settings: TriggerSettings): number {
+	const debounce = Number(settings.debounce);
+	return settings.debounce !== undefined && settings.debounce !== "" && Number.isFinite(debounce) && debounce >= 0 ? debounce : defaultDebounceMs;
+}
+
+export const scriptTriggers = new ScriptTriggers();